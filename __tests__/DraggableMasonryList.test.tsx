@@ -5,6 +5,7 @@
  * Note: Full component rendering tests require a complete React Native environment.
  * These tests focus on the component's logic and prop handling through mock-based testing.
  */
+import { moveItem } from '../src/core';
 import { DEFAULT_PROPS, MasonryItem } from '../src/types';
 
 // Test data
@@ -143,26 +144,20 @@ describe('DraggableMasonryList Component Logic', () => {
     // =========================================================================
     describe('並び替えロジックテスト', () => {
         it('アイテムを前方に移動', () => {
-            const items = [...mockData];
             const fromIndex = 3;
             const toIndex = 1;
 
-            // Simulate reorder
-            const [removed] = items.splice(fromIndex, 1);
-            items.splice(toIndex, 0, removed);
+            const items = moveItem(mockData, fromIndex, toIndex);
 
             expect(items[1].id).toBe('4');
             expect(items.length).toBe(mockData.length);
         });
 
         it('アイテムを後方に移動', () => {
-            const items = [...mockData];
             const fromIndex = 0;
             const toIndex = 2;
 
-            // Simulate reorder
-            const [removed] = items.splice(fromIndex, 1);
-            items.splice(toIndex, 0, removed);
+            const items = moveItem(mockData, fromIndex, toIndex);
 
             expect(items[2].id).toBe('1');
             expect(items.length).toBe(mockData.length);
@@ -0,0 +1,144 @@
+import { calculateLayout } from '../../src/core/layout';
+import {
+    filterVisibleItems,
+    findDragColumns,
+    findInsertIndex,
+    findMergeTarget,
+    findSwapTarget,
+} from '../../src/core/hitTest';
+import type { MasonryItem } from '../../src/core/types';
+
+// Test data
+const mockData: MasonryItem[] = [
+    { id: '1', height: 100 },
+    { id: '2', height: 150 },
+    { id: '3', height: 120 },
+    { id: '4', height: 80 },
+    { id: '5', height: 60 },
+];
+
+const keyExtractor = (item: MasonryItem) => item.id;
+
+// 2カラム・カラム幅100・間隔10
+// 1: c0 y0 / 2: c1 y0 / 3: c0 y110 / 4: c1 y160 / 5: c0 y240
+const { positions } = calculateLayout(mockData, 'shortestColumn', {
+    columns: 2,
+    containerWidth: 210,
+    rowGap: 10,
+    columnGap: 10,
+    keyExtractor,
+});
+
+describe('hitTest.ts - Hit Testing', () => {
+    // =========================================================================
+    // findDragColumns
+    // =========================================================================
+    describe('findDragColumns', () => {
+        it('ドラッグ中心のカラムを返す', () => {
+            expect(findDragColumns(50, 100, 2, 100, 10)).toEqual({ startColumn: 0, endColumn: 0 });
+            expect(findDragColumns(160, 100, 2, 100, 10)).toEqual({ startColumn: 1, endColumn: 1 });
+        });
+
+        it('複数カラム幅のアイテムは覆う範囲を返す', () => {
+            expect(findDragColumns(105, 210, 2, 100, 10)).toEqual({ startColumn: 0, endColumn: 1 });
+        });
+
+        it('コンテナ外はカラム範囲に丸められる', () => {
+            expect(findDragColumns(-80, 100, 2, 100, 10)).toEqual({ startColumn: 0, endColumn: 0 });
+            expect(findDragColumns(900, 100, 2, 100, 10)).toEqual({ startColumn: 1, endColumn: 1 });
+        });
+    });
+
+    // =========================================================================
+    // findInsertIndex
+    // =========================================================================
+    describe('findInsertIndex', () => {
+        const withoutDragged = mockData.filter(item => item.id !== '5');
+
+        it('同じカラムのアイテムの前に挿入される', () => {
+            const index = findInsertIndex(110, 0, 100, 60, withoutDragged, positions, keyExtractor, '5', -1, 2, 100, 10);
+            expect(index).toBe(1);
+        });
+
+        it('カラムの全アイテムより下なら最後のアイテムの後', () => {
+            const index = findInsertIndex(0, 500, 100, 60, withoutDragged, positions, keyExtractor, '5', -1, 2, 100, 10);
+            expect(index).toBe(3);
+        });
+
+        it('isTarget が false のアイテムは対象外', () => {
+            const index = findInsertIndex(
+                110, 0, 100, 60, withoutDragged, positions, keyExtractor, '5', -1, 2, 100, 10,
+                item => item.id !== '2'
+            );
+            expect(index).toBe(3);
+        });
+
+        it('データが空なら 0', () => {
+            expect(findInsertIndex(0, 0, 100, 60, [], positions, keyExtractor, '5', -1, 2, 100, 10)).toBe(0);
+        });
+    });
+
+    // =========================================================================
+    // findSwapTarget
+    // =========================================================================
+    describe('findSwapTarget', () => {
+        it('ドラッグ中心と重なるアイテムのインデックスを返す', () => {
+            expect(findSwapTarget(50, 50, mockData, positions, keyExtractor, '5')).toBe(0);
+            expect(findSwapTarget(160, 200, mockData, positions, keyExtractor, '5')).toBe(3);
+        });
+
+        it('ドラッグ中のアイテム自身は対象外', () => {
+            expect(findSwapTarget(50, 260, mockData, positions, keyExtractor, '5')).toBe(-1);
+        });
+
+        it('canSwapWith が false のアイテムは対象外', () => {
+            expect(findSwapTarget(50, 50, mockData, positions, keyExtractor, '5', item => item.id !== '1')).toBe(-1);
+        });
+    });
+
+    // =========================================================================
+    // findMergeTarget
+    // =========================================================================
+    describe('findMergeTarget', () => {
+        it('アイテムの中央部分にあればそのインデックスを返す', () => {
+            // 1: x0-100 y0-100 → 中央 x25-75 y25-75
+            expect(findMergeTarget(50, 50, mockData, positions, keyExtractor, '5')).toBe(0);
+            expect(findMergeTarget(160, 200, mockData, positions, keyExtractor, '5')).toBe(3);
+        });
+
+        it('周辺部分では-1を返す', () => {
+            expect(findMergeTarget(10, 50, mockData, positions, keyExtractor, '5')).toBe(-1);
+            expect(findMergeTarget(50, 90, mockData, positions, keyExtractor, '5')).toBe(-1);
+        });
+
+        it('centerRatio で中央部分の大きさを変えられる', () => {
+            expect(findMergeTarget(10, 50, mockData, positions, keyExtractor, '5', undefined, 0.9)).toBe(0);
+            expect(findMergeTarget(30, 50, mockData, positions, keyExtractor, '5', undefined, 0.2)).toBe(-1);
+        });
+
+        it('canMergeWith が false のアイテムとドラッグ中のアイテム自身は対象外', () => {
+            expect(findMergeTarget(50, 50, mockData, positions, keyExtractor, '5', item => item.id !== '1')).toBe(-1);
+            expect(findMergeTarget(50, 270, mockData, positions, keyExtractor, '5')).toBe(-1);
+        });
+    });
+
+    // =========================================================================
+    // filterVisibleItems
+    // =========================================================================
+    describe('filterVisibleItems', () => {
+        it('可視範囲と重なるアイテムのみ返す', () => {
+            const visible = filterVisibleItems(mockData, positions, 0, 100, 0, keyExtractor, null);
+            expect(visible.map(keyExtractor)).toEqual(['1', '2']);
+        });
+
+        it('オーバースキャン分も含める', () => {
+            const visible = filterVisibleItems(mockData, positions, 0, 100, 100, keyExtractor, null);
+            expect(visible.map(keyExtractor)).toEqual(['1', '2', '3', '4']);
+        });
+
+        it('ドラッグ中のアイテムは常に含める', () => {
+            const visible = filterVisibleItems(mockData, positions, 0, 100, 0, keyExtractor, '5');
+            expect(visible.map(keyExtractor)).toEqual(['1', '2', '5']);
+        });
+    });
+});
@@ -0,0 +1,38 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+import * as core from '../../src/core';
+
+const CORE_DIR = path.join(__dirname, '../../src/core');
+
+describe('core - Public Entry', () => {
+    it('レイアウト・判定・並び替えの関数を公開する', () => {
+        expect(typeof core.calculateLayout).toBe('function');
+        expect(typeof core.findInsertIndex).toBe('function');
+        expect(typeof core.findSwapTarget).toBe('function');
+        expect(typeof core.findMergeTarget).toBe('function');
+        expect(typeof core.filterVisibleItems).toBe('function');
+        expect(typeof core.moveItem).toBe('function');
+        expect(typeof core.replayOrder).toBe('function');
+        expect(typeof core.createInsertIndexCheck).toBe('function');
+        expect(typeof core.buildSpatialIndex).toBe('function');
+    });
+
+    it('React Native / Reanimated / Gesture Handler に依存しない', () => {
+        const files = fs.readdirSync(CORE_DIR).filter(file => file.endsWith('.ts'));
+        for (const file of files) {
+            const source = fs.readFileSync(path.join(CORE_DIR, file), 'utf8');
+            expect(source).not.toMatch(/from ['"](react|react-native[^'"]*)['"]/);
+        }
+    });
+
+    it('公開エントリからレイアウトを計算できる', () => {
+        const { positions, totalHeight } = core.calculateLayout(
+            [{ id: 'a', height: 40 }, { id: 'b', height: 20 }],
+            'shortestColumn',
+            { columns: 2, containerWidth: 210, rowGap: 10, columnGap: 10, keyExtractor: item => item.id }
+        );
+        expect(positions['b']).toMatchObject({ column: 1, y: 0 });
+        expect(totalHeight).toBe(50);
+    });
+});
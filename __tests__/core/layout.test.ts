@@ -0,0 +1,597 @@
+import {
+    calculateLayout,
+    createLayoutCache,
+    getIndexInColumn,
+    getMeasuredSize,
+    mirrorPosition,
+    resolveColumns,
+    resolveItemHeight,
+    resolveItemSpan,
+    resolveItemWidth,
+    resolveLayoutStrategy,
+    transposePosition,
+} from '../../src/core/layout';
+import { moveItem } from '../../src/core/reorder';
+import type { BuiltInLayoutStrategy, ColumnLayout, MasonryItem } from '../../src/core/types';
+
+// Test data
+const mockData: MasonryItem[] = [
+    { id: '1', height: 100 },
+    { id: '2', height: 150 },
+    { id: '3', height: 120 },
+    { id: '4', height: 80 },
+    { id: '5', height: 60 },
+];
+
+const params = {
+    columns: 2,
+    containerWidth: 210,
+    rowGap: 10,
+    columnGap: 10,
+    keyExtractor: (item: MasonryItem) => item.id,
+};
+
+describe('layout.ts - Layout Strategies', () => {
+    // =========================================================================
+    // shortestColumn
+    // =========================================================================
+    describe('shortestColumn', () => {
+        it('最も低いカラムに配置される', () => {
+            const { positions, totalHeight } = calculateLayout(mockData, 'shortestColumn', params);
+
+            expect(positions['1']).toEqual({ x: 0, y: 0, width: 100, height: 100, column: 0, span: 1 });
+            expect(positions['2']).toEqual({ x: 110, y: 0, width: 100, height: 150, column: 1, span: 1 });
+            expect(positions['3']).toMatchObject({ column: 0, y: 110 });
+            expect(positions['4']).toMatchObject({ column: 1, y: 160 });
+            expect(positions['5']).toMatchObject({ column: 0, y: 240 });
+            expect(totalHeight).toBe(310);
+        });
+
+        it('空のデータでは totalHeight が 0', () => {
+            expect(calculateLayout([], 'shortestColumn', params)).toEqual({ positions: {}, totalHeight: 0 });
+        });
+    });
+
+    // =========================================================================
+    // roundRobin
+    // =========================================================================
+    describe('roundRobin', () => {
+        it('インデックス順に交互のカラムへ配置される', () => {
+            const { positions, totalHeight } = calculateLayout(mockData, 'roundRobin', params);
+
+            expect(positions['1']).toMatchObject({ column: 0, y: 0 });
+            expect(positions['2']).toMatchObject({ column: 1, y: 0 });
+            expect(positions['3']).toMatchObject({ column: 0, y: 110 });
+            expect(positions['4']).toMatchObject({ column: 1, y: 160 });
+            expect(positions['5']).toMatchObject({ column: 0, y: 240 });
+            expect(totalHeight).toBe(310);
+        });
+
+        it('高さに関係なくカラムが決まる', () => {
+            const data = [{ id: 'a', height: 500 }, { id: 'b', height: 10 }, { id: 'c', height: 10 }];
+            const { positions } = calculateLayout(data, 'roundRobin', params);
+            expect(positions['c']).toMatchObject({ column: 0, y: 510 });
+        });
+    });
+
+    // =========================================================================
+    // grid
+    // =========================================================================
+    describe('grid', () => {
+        it('各行は前の行の最も高いアイテムの下から開始する', () => {
+            const { positions, totalHeight } = calculateLayout(mockData, 'grid', params);
+
+            expect(positions['1']).toMatchObject({ column: 0, y: 0 });
+            expect(positions['2']).toMatchObject({ column: 1, y: 0 });
+            expect(positions['3']).toMatchObject({ column: 0, y: 160 });
+            expect(positions['4']).toMatchObject({ column: 1, y: 160 });
+            expect(positions['5']).toMatchObject({ column: 0, y: 290 });
+            expect(totalHeight).toBe(360);
+        });
+
+        it('アイテムの高さは維持される', () => {
+            const { positions } = calculateLayout(mockData, 'grid', params);
+            expect(positions['1'].height).toBe(100);
+        });
+    });
+
+    // =========================================================================
+    // Custom strategy
+    // =========================================================================
+    describe('カスタム戦略', () => {
+        it('カスタム関数に data と ctx が渡される', () => {
+            const strategy = jest.fn(() => ({ positions: {}, totalHeight: 0 }));
+            calculateLayout(mockData, strategy, params);
+
+            expect(strategy).toHaveBeenCalledWith(mockData, {
+                columns: 2,
+                containerWidth: 210,
+                columnWidth: 100,
+                rowGap: 10,
+                columnGap: 10,
+                keyExtractor: params.keyExtractor,
+                getItemSpan: expect.any(Function),
+                getItemHeight: expect.any(Function),
+                getItemColumn: expect.any(Function),
+            });
+        });
+
+        it('カスタム関数の結果がそのまま返される', () => {
+            const result = { positions: { '1': { x: 5, y: 5, width: 10, height: 10, column: 0, span: 1 } }, totalHeight: 15 };
+            expect(calculateLayout(mockData, () => result, params)).toBe(result);
+        });
+
+        it('未知の戦略名は shortestColumn にフォールバックする', () => {
+            const strategy = resolveLayoutStrategy('unknown' as unknown as BuiltInLayoutStrategy);
+            expect(strategy).toBe(resolveLayoutStrategy('shortestColumn'));
+        });
+    });
+
+    // =========================================================================
+    // anchored
+    // =========================================================================
+    describe('anchored', () => {
+        it('item.column のカラムにデータ順で積まれる', () => {
+            const data: MasonryItem[] = [
+                { id: '1', height: 100, column: 1 },
+                { id: '2', height: 50, column: 1 },
+                { id: '3', height: 30, column: 0 },
+            ];
+            const { positions, totalHeight } = calculateLayout(data, 'anchored', params);
+
+            expect(positions['1']).toMatchObject({ column: 1, y: 0 });
+            expect(positions['2']).toMatchObject({ column: 1, y: 110 });
+            expect(positions['3']).toMatchObject({ column: 0, y: 0 });
+            expect(totalHeight).toBe(170);
+        });
+
+        it('カラム未指定のアイテムは最も低いカラムへ配置される', () => {
+            const data: MasonryItem[] = [{ id: '1', height: 100, column: 0 }, { id: '2', height: 50 }];
+            const { positions } = calculateLayout(data, 'anchored', params);
+            expect(positions['2']).toMatchObject({ column: 1, y: 0 });
+        });
+
+        it('カラム数を超える指定は右端に丸められる', () => {
+            const data: MasonryItem[] = [{ id: '1', height: 100, column: 5 }];
+            expect(calculateLayout(data, 'anchored', params).positions['1'].column).toBe(1);
+        });
+
+        it('getItemColumn が item.column より優先される', () => {
+            const data: MasonryItem[] = [{ id: '1', height: 100, column: 0 }];
+            const { positions } = calculateLayout(data, 'anchored', { ...params, getItemColumn: () => 1 });
+            expect(positions['1'].column).toBe(1);
+        });
+
+        it('getIndexInColumn は同じカラムのアイテムをデータ順に数える', () => {
+            const data: MasonryItem[] = [
+                { id: '1', height: 100, column: 1 },
+                { id: '2', height: 50, column: 0 },
+                { id: '3', height: 30, column: 1 },
+            ];
+            const { positions } = calculateLayout(data, 'anchored', params);
+            const keyExtractor = (item: MasonryItem) => item.id;
+            expect(getIndexInColumn(data, positions, keyExtractor, '3')).toBe(1);
+            expect(getIndexInColumn(data, positions, keyExtractor, '2')).toBe(0);
+            expect(getIndexInColumn(data, positions, keyExtractor, 'missing')).toBe(-1);
+        });
+
+        it('getIndexInColumn は境界ごとに数え直す', () => {
+            const data: MasonryItem[] = [
+                { id: '1', height: 10, column: 0 },
+                { id: 'header', height: 10, span: 2 },
+                { id: '2', height: 10, column: 0 },
+            ];
+            const { positions } = calculateLayout(data, 'anchored', params);
+            const index = getIndexInColumn(data, positions, item => item.id, '2', item => item.id === 'header');
+            expect(index).toBe(0);
+        });
+    });
+
+    // =========================================================================
+    // Span
+    // =========================================================================
+    describe('複数カラムにまたがるアイテム', () => {
+        const spanParams = { ...params, columns: 3, containerWidth: 320 };
+        const spanData: MasonryItem[] = [
+            { id: '1', height: 100 },
+            { id: '2', height: 50 },
+            { id: 'banner', height: 40, span: 3 },
+            { id: '3', height: 60 },
+        ];
+
+        it('覆うカラムの最も低い位置から開始し、全カラム幅になる', () => {
+            const { positions } = calculateLayout(spanData, 'shortestColumn', spanParams);
+
+            expect(positions['banner']).toEqual({ x: 0, y: 110, width: 320, height: 40, column: 0, span: 3 });
+            expect(positions['3']).toMatchObject({ column: 0, y: 160 });
+        });
+
+        it('span=2 は開始位置が最も高くなる範囲に配置される', () => {
+            const data: MasonryItem[] = [
+                { id: '1', height: 100 },
+                { id: '2', height: 20 },
+                { id: '3', height: 30 },
+                { id: 'wide', height: 40, span: 2 },
+            ];
+            const { positions } = calculateLayout(data, 'shortestColumn', spanParams);
+            expect(positions['wide']).toMatchObject({ column: 1, y: 40, width: 210, span: 2 });
+        });
+
+        it('roundRobin は収まらない場合に次の行の先頭へ回り込む', () => {
+            const data: MasonryItem[] = [
+                { id: '1', height: 100 },
+                { id: '2', height: 50 },
+                { id: 'wide', height: 40, span: 2 },
+                { id: '3', height: 60 },
+            ];
+            const { positions } = calculateLayout(data, 'roundRobin', spanParams);
+            expect(positions['wide']).toMatchObject({ column: 0, y: 110, span: 2 });
+            expect(positions['3']).toMatchObject({ column: 2, y: 0 });
+        });
+
+        it('grid は収まらない場合に新しい行を開始する', () => {
+            const data: MasonryItem[] = [
+                { id: '1', height: 100 },
+                { id: '2', height: 50 },
+                { id: 'wide', height: 40, span: 2 },
+                { id: '3', height: 60 },
+            ];
+            const { positions } = calculateLayout(data, 'grid', spanParams);
+            expect(positions['wide']).toMatchObject({ column: 0, y: 110, span: 2 });
+            expect(positions['3']).toMatchObject({ column: 2, y: 110 });
+        });
+
+        it('getItemSpan が item.span より優先される', () => {
+            const { positions } = calculateLayout(spanData, 'shortestColumn', {
+                ...spanParams,
+                getItemSpan: (item) => (item.id === '1' ? 2 : 1),
+            });
+            expect(positions['1']).toMatchObject({ span: 2, width: 210 });
+            expect(positions['banner']).toMatchObject({ span: 1 });
+        });
+
+        it('span は 1..columns に丸められる', () => {
+            expect(resolveItemSpan({ id: 'a', height: 1, span: 10 }, 3)).toBe(3);
+            expect(resolveItemSpan({ id: 'a', height: 1, span: 0 }, 3)).toBe(1);
+            expect(resolveItemSpan({ id: 'a', height: 1, span: 1.6 }, 3)).toBe(2);
+            expect(resolveItemSpan({ id: 'a', height: 1 }, 3)).toBe(1);
+        });
+    });
+
+    // =========================================================================
+    // Responsive columns
+    // =========================================================================
+    describe('resolveColumns', () => {
+        it('数値はそのまま使われる', () => {
+            expect(resolveColumns(3, 0, 10)).toBe(3);
+            expect(resolveColumns(0, 400, 10)).toBe(1);
+        });
+
+        it('ブレークポイントはコンテナ幅以下で最大のものが選ばれる', () => {
+            const breakpoints = { 0: 2, 600: 3, 900: 4 };
+            expect(resolveColumns(breakpoints, 375, 10)).toBe(2);
+            expect(resolveColumns(breakpoints, 600, 10)).toBe(3);
+            expect(resolveColumns(breakpoints, 1024, 10)).toBe(4);
+        });
+
+        it('該当するブレークポイントがない場合は最小のものが選ばれる', () => {
+            expect(resolveColumns({ 400: 2, 800: 3 }, 0, 10)).toBe(2);
+        });
+
+        it('minColumnWidth を満たす最大のカラム数になる', () => {
+            // (375 + 10) / (150 + 10) = 2.4
+            expect(resolveColumns({ minColumnWidth: 150 }, 375, 10)).toBe(2);
+            // (1024 + 10) / (150 + 10) = 6.4
+            expect(resolveColumns({ minColumnWidth: 150 }, 1024, 10)).toBe(6);
+            expect(resolveColumns({ minColumnWidth: 150, maxColumns: 4 }, 1024, 10)).toBe(4);
+            expect(resolveColumns({ minColumnWidth: 150 }, 0, 10)).toBe(1);
+        });
+    });
+
+    // =========================================================================
+    // Item height resolution
+    // =========================================================================
+    describe('getItemHeight', () => {
+        it('解決された高さでレイアウトされる', () => {
+            const data: MasonryItem[] = [{ id: 'a' }, { id: 'b', height: 40 }, { id: 'c' }];
+            const measured: Record<string, number> = { a: 70 };
+            const { positions } = calculateLayout(data, 'shortestColumn', {
+                ...params,
+                getItemHeight: (item) => item.height ?? measured[item.id] ?? 100,
+            });
+
+            expect(positions['a']).toMatchObject({ column: 0, y: 0, height: 70 });
+            expect(positions['b']).toMatchObject({ column: 1, y: 0, height: 40 });
+            expect(positions['c']).toMatchObject({ column: 1, y: 50, height: 100 });
+        });
+
+        it('省略時は item.height / aspectRatio が使われる', () => {
+            const data: MasonryItem[] = [{ id: 'a', height: 30 }, { id: 'b' }, { id: 'c', aspectRatio: 2 }];
+            const { positions } = calculateLayout(data, 'roundRobin', params);
+            expect(positions['a'].height).toBe(30);
+            expect(positions['b'].height).toBe(0);
+            expect(positions['c'].height).toBe(50);
+        });
+
+        it('セルの幅（spanを含む）が渡される', () => {
+            const getItemHeight = jest.fn(() => 10);
+            calculateLayout([{ id: 'a' }, { id: 'wide', span: 2 }], 'shortestColumn', { ...params, getItemHeight });
+            expect(getItemHeight).toHaveBeenNthCalledWith(1, { id: 'a' }, 100);
+            expect(getItemHeight).toHaveBeenNthCalledWith(2, { id: 'wide', span: 2 }, 210);
+        });
+
+        it('カラム数が変わるとアスペクト比から高さが再計算される', () => {
+            const data: MasonryItem[] = [{ id: 'photo', aspectRatio: 0.5 }];
+            expect(calculateLayout(data, 'shortestColumn', params).positions['photo'].height).toBe(200);
+            expect(calculateLayout(data, 'shortestColumn', { ...params, columns: 1 }).positions['photo'].height).toBe(420);
+        });
+    });
+
+    describe('resolveItemHeight', () => {
+        it('getItemHeight > height > aspectRatio の順で解決される', () => {
+            const item: MasonryItem = { id: 'a', height: 30, aspectRatio: 2 };
+            expect(resolveItemHeight(item, 100, (_, width) => width * 1.5)).toBe(150);
+            expect(resolveItemHeight(item, 100)).toBe(30);
+            expect(resolveItemHeight({ id: 'a', aspectRatio: 2 }, 100)).toBe(50);
+        });
+
+        it('getItemHeight が undefined を返すとフォールバックする', () => {
+            expect(resolveItemHeight({ id: 'a', aspectRatio: 4 }, 100, () => undefined)).toBe(25);
+        });
+
+        it('いずれもなければ undefined（計測が必要）', () => {
+            expect(resolveItemHeight({ id: 'a' }, 100)).toBeUndefined();
+            expect(resolveItemHeight({ id: 'a', aspectRatio: 0 }, 100)).toBeUndefined();
+        });
+    });
+
+    // =========================================================================
+    // RTL
+    // =========================================================================
+    describe('mirrorPosition', () => {
+        it('最初のカラムが右端になる', () => {
+            const { positions } = calculateLayout(mockData, 'shortestColumn', params);
+            expect(mirrorPosition(positions['1'], 210)).toMatchObject({ x: 110, column: 0 });
+            expect(mirrorPosition(positions['2'], 210)).toMatchObject({ x: 0, column: 1 });
+        });
+
+        it('2回適用すると元に戻る', () => {
+            const pos = { x: 10, y: 20, width: 50, height: 30, column: 0, span: 1 };
+            expect(mirrorPosition(mirrorPosition(pos, 200), 200)).toEqual(pos);
+        });
+    });
+
+    // =========================================================================
+    // Horizontal
+    // =========================================================================
+    describe('横方向モード', () => {
+        it('getMeasuredSize は幅を計測するアイテムでは推定値より広い幅もそのまま返す', () => {
+            // 推定幅 100 の行に置かれた、本来の幅が 240 のアイテム
+            expect(getMeasuredSize({ width: 240, height: 100 }, 'width')).toBe(240);
+            expect(getMeasuredSize({ width: 240, height: 100 }, 'height')).toBe(100);
+        });
+
+        it('resolveItemWidth は width > aspectRatio の順で解決される', () => {
+            expect(resolveItemWidth({ id: 'a', width: 80, aspectRatio: 2 }, 100)).toBe(80);
+            expect(resolveItemWidth({ id: 'a', aspectRatio: 2 }, 100)).toBe(200);
+            expect(resolveItemWidth({ id: 'a', height: 50 }, 100)).toBeUndefined();
+        });
+
+        it('幅の合計が最も小さい行に配置される', () => {
+            // 行 = 論理カラム、幅 = 論理的な高さ
+            const data: MasonryItem[] = [{ id: '1', width: 100 }, { id: '2', width: 40 }, { id: '3', width: 30 }];
+            const { positions, totalHeight } = calculateLayout(data, 'shortestColumn', {
+                ...params,
+                getItemHeight: (item, rowHeight) => resolveItemWidth(item, rowHeight) ?? 0,
+            });
+
+            expect(transposePosition(positions['1'])).toMatchObject({ x: 0, y: 0, width: 100, height: 100 });
+            expect(transposePosition(positions['2'])).toMatchObject({ x: 0, y: 110, width: 40, height: 100 });
+            expect(transposePosition(positions['3'])).toMatchObject({ x: 50, y: 110, width: 30 });
+            expect(totalHeight).toBe(110);
+        });
+
+        it('transposePosition は x/y と width/height を入れ替える', () => {
+            const pos = { x: 1, y: 2, width: 3, height: 4, column: 1, span: 1 };
+            expect(transposePosition(pos)).toEqual({ x: 2, y: 1, width: 4, height: 3, column: 1, span: 1 });
+            expect(transposePosition(transposePosition(pos))).toEqual(pos);
+        });
+    });
+
+    // =========================================================================
+    // Incremental layout
+    // =========================================================================
+    describe('差分計算（cache）', () => {
+        const strategies: BuiltInLayoutStrategy[] = ['shortestColumn', 'roundRobin', 'grid', 'anchored'];
+
+        // 決定的な擬似乱数で高さ・span・カラムを作る
+        const createItems = (count: number, seed = 1): MasonryItem[] => {
+            let value = seed;
+            const next = () => {
+                value = (value * 16807) % 2147483647;
+                return value / 2147483647;
+            };
+            return Array.from({ length: count }, (_, i) => ({
+                id: String(i),
+                height: 40 + Math.floor(next() * 160),
+                span: next() < 0.1 ? 2 : 1,
+                column: Math.floor(next() * 3),
+            }));
+        };
+
+        const createCountingParams = () => {
+            const counter = { calls: 0 };
+            const getItemHeight = (item: MasonryItem) => {
+                counter.calls++;
+                return item.height ?? 0;
+            };
+            return { counter, params: { ...params, columns: 3, containerWidth: 320, getItemHeight } };
+        };
+
+        // どちらかのレイアウトでvisibleEndまでにかかるアイテムの、layoutでの位置
+        const pickVisible = (data: MasonryItem[], layout: ColumnLayout, other: ColumnLayout, visibleEnd: number) =>
+            data
+                .filter(item => layout.positions[item.id].y <= visibleEnd || other.positions[item.id].y <= visibleEnd)
+                .map(item => layout.positions[item.id]);
+
+        it.each(strategies)('%s: 並び替え・追加・削除後も全体計算と同じ結果になる', (strategy) => {
+            const { params: countingParams } = createCountingParams();
+            const cache = createLayoutCache<MasonryItem>();
+            let data = createItems(60);
+            const steps: ((items: MasonryItem[]) => MasonryItem[])[] = [
+                items => moveItem(items, 10, 40),
+                items => moveItem(items, 50, 3),
+                items => items.slice(0, 55),
+                items => [...items, ...createItems(5, 7).map(item => ({ ...item, id: `new-${item.id}` }))],
+                items => items.filter((_, i) => i !== 20),
+                items => moveItem(items, 0, items.length - 1),
+            ];
+
+            calculateLayout(data, strategy, countingParams, cache);
+            for (const step of steps) {
+                data = step(data);
+                expect(calculateLayout(data, strategy, countingParams, cache))
+                    .toEqual(calculateLayout(data, strategy, countingParams));
+            }
+        });
+
+        it.each(strategies)('%s: visibleEndで省いた範囲も、visibleEndなしで呼べば全体計算と同じ結果になる', (strategy) => {
+            const { params: countingParams } = createCountingParams();
+            const cache = createLayoutCache<MasonryItem>();
+            let data = createItems(300);
+            const visibleEnd = calculateLayout(data, strategy, countingParams, cache).positions['100'].y;
+            const steps: ((items: MasonryItem[]) => MasonryItem[])[] = [
+                items => moveItem(items, 40, 60),
+                items => moveItem(items, 60, 20),
+                items => items.filter((_, i) => i !== 10),
+                items => moveItem(items, 250, 5),
+            ];
+
+            for (const step of steps) {
+                data = step(data);
+                const result = calculateLayout(data, strategy, countingParams, cache, visibleEnd);
+                const exact = calculateLayout(data, strategy, countingParams);
+                expect(pickVisible(data, result, exact, visibleEnd)).toEqual(pickVisible(data, exact, result, visibleEnd));
+            }
+            expect(calculateLayout(data, strategy, countingParams, cache))
+                .toEqual(calculateLayout(data, strategy, countingParams));
+        });
+
+        it('データが同じなら前回の結果をそのまま返す', () => {
+            const { counter, params: countingParams } = createCountingParams();
+            const cache = createLayoutCache<MasonryItem>();
+            const data = createItems(100);
+            const first = calculateLayout(data, 'shortestColumn', countingParams, cache);
+            counter.calls = 0;
+
+            expect(calculateLayout([...data], 'shortestColumn', countingParams, cache)).toBe(first);
+            expect(counter.calls).toBe(0);
+        });
+
+        it('パラメータが変わると全体を再計算する', () => {
+            const { counter, params: countingParams } = createCountingParams();
+            const cache = createLayoutCache<MasonryItem>();
+            const data = createItems(100);
+            calculateLayout(data, 'shortestColumn', countingParams, cache);
+            counter.calls = 0;
+
+            const result = calculateLayout(data, 'shortestColumn', { ...countingParams, columns: 2 }, cache);
+            expect(counter.calls).toBe(100);
+            expect(result).toEqual(calculateLayout(data, 'shortestColumn', { ...countingParams, columns: 2 }));
+        });
+
+        // ---------------------------------------------------------------------
+        // Benchmarks: 2,000件のリストでドラッグ中の1回の更新に必要な配置数
+        // ---------------------------------------------------------------------
+        describe('ベンチマーク（2,000件）', () => {
+            const COUNT = 2000;
+
+            it('末尾付近の挿入位置の変更は変更位置以降だけを配置する', () => {
+                const { counter, params: countingParams } = createCountingParams();
+                const cache = createLayoutCache<MasonryItem>();
+                const data = createItems(COUNT);
+                calculateLayout(data, 'shortestColumn', countingParams, cache);
+                counter.calls = 0;
+
+                calculateLayout(moveItem(data, COUNT - 10, COUNT - 5), 'shortestColumn', countingParams, cache);
+                expect(counter.calls).toBeLessThanOrEqual(10);
+            });
+
+            it('grid: 挿入位置を1つずつ動かすドラッグは行の範囲だけを配置する', () => {
+                const { counter, params: countingParams } = createCountingParams();
+                const cache = createLayoutCache<MasonryItem>();
+                const data = createItems(COUNT).map(item => ({ ...item, span: 1 }));
+                calculateLayout(data, 'grid', countingParams, cache);
+                counter.calls = 0;
+
+                // 1,000番目のアイテムを同じ行の中で動かす（3カラム: 999〜1001が1行）
+                calculateLayout(moveItem(data, 999, 1000), 'grid', countingParams, cache);
+                calculateLayout(moveItem(data, 999, 1001), 'grid', countingParams, cache);
+                expect(counter.calls).toBeLessThan(10);
+            });
+
+            it('anchored: カラム内の移動は途中状態が一致した時点で打ち切る', () => {
+                const { counter, params: countingParams } = createCountingParams();
+                const cache = createLayoutCache<MasonryItem>();
+                const data = createItems(COUNT).map((item, i) => ({ ...item, span: 1, column: i % 3 }));
+                calculateLayout(data, 'anchored', countingParams, cache);
+                counter.calls = 0;
+
+                // 同じカラム（column 0）の隣り合うアイテムを入れ替える
+                calculateLayout(moveItem(data, 999, 1002), 'anchored', countingParams, cache);
+                expect(counter.calls).toBeLessThan(10);
+            });
+
+            it('shortestColumn: 高さが揃っていれば中央付近の移動も局所的に収まる', () => {
+                const { counter, params: countingParams } = createCountingParams();
+                const cache = createLayoutCache<MasonryItem>();
+                const data = createItems(COUNT).map(item => ({ ...item, height: 100, span: 1 }));
+                calculateLayout(data, 'shortestColumn', countingParams, cache);
+                counter.calls = 0;
+
+                // ドラッグで挿入位置が 1,000 → 1,020 と移動する間の合計
+                for (let target = 1000; target <= 1020; target++) {
+                    calculateLayout(moveItem(data, 990, target), 'shortestColumn', countingParams, cache);
+                }
+                expect(counter.calls).toBeLessThan(COUNT);
+            });
+
+            // 高さがばらつく現実的なデータでは、カラムの途中状態がなかなか一致しないので、
+            // ドラッグ中は表示範囲の末尾（visibleEnd）より先を前回の位置のままにする
+            it.each(['shortestColumn', 'roundRobin'] as const)('%s: 高さがばらついても、visibleEndまでを配置する', (strategy) => {
+                const { counter, params: countingParams } = createCountingParams();
+                const exactParams = { ...countingParams, getItemHeight: (item: MasonryItem) => item.height ?? 0 };
+                const cache = createLayoutCache<MasonryItem>();
+                const data = createItems(COUNT);
+                // 1,000番目あたりを表示中（表示範囲の末尾は1,040番目のアイテムの位置）
+                const visibleEnd = calculateLayout(data, strategy, countingParams, cache).positions['1040'].y;
+                counter.calls = 0;
+
+                // ドラッグで挿入位置が 1,000 → 1,020 と移動する間の1回あたりの配置数
+                const updates = 21;
+                for (let target = 1000; target < 1000 + updates; target++) {
+                    const moved = moveItem(data, 990, target);
+                    const exact = calculateLayout(moved, strategy, exactParams);
+                    const result = calculateLayout(moved, strategy, countingParams, cache, visibleEnd);
+                    // 表示範囲にかかるアイテムは正確な位置で、前回の位置のままのアイテムは表示範囲の外
+                    expect(pickVisible(moved, result, exact, visibleEnd)).toEqual(pickVisible(moved, exact, result, visibleEnd));
+                }
+                const perUpdate = counter.calls / updates;
+                // 変更位置（990）から表示範囲の末尾（1,040番目前後）までで、リストの長さによらない
+                expect(perUpdate).toBeLessThan(60);
+
+                // ドロップ後（visibleEndなし）は残りも配置して全体計算と同じになる
+                const dropped = moveItem(data, 990, 1020);
+                expect(calculateLayout(dropped, strategy, countingParams, cache))
+                    .toEqual(calculateLayout(dropped, strategy, exactParams));
+            });
+
+            it('キャッシュなしでは毎回全件を配置する（比較用）', () => {
+                const { counter, params: countingParams } = createCountingParams();
+                const data = createItems(COUNT);
+                calculateLayout(moveItem(data, COUNT - 10, COUNT - 5), 'shortestColumn', countingParams);
+                expect(counter.calls).toBe(COUNT);
+            });
+        });
+    });
+});
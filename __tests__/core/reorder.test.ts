@@ -0,0 +1,206 @@
+import {
+    createInsertIndexCheck,
+    getMoveTarget,
+    getSwapTarget,
+    keepLockedIndices,
+    moveItem,
+    moveItems,
+    replayOrder,
+    swapItems,
+} from '../../src/core/reorder';
+
+const isLocked = (item: string) => item.startsWith('L');
+const isHeader = (item: string) => item.startsWith('#');
+
+describe('reorder.ts - Locked Items', () => {
+    // =========================================================================
+    // moveItem
+    // =========================================================================
+    describe('moveItem', () => {
+        it('ロックがなければ通常の移動になる', () => {
+            expect(moveItem(['a', 'b', 'c', 'd'], 0, 2)).toEqual(['b', 'c', 'a', 'd']);
+            expect(moveItem(['a', 'b', 'c', 'd'], 3, 0)).toEqual(['d', 'a', 'b', 'c']);
+        });
+
+        it('ロックされたアイテムはインデックスを維持する', () => {
+            expect(moveItem(['a', 'L1', 'b', 'c'], 0, 3, isLocked)).toEqual(['b', 'L1', 'c', 'a']);
+            expect(moveItem(['L1', 'a', 'b', 'c'], 3, 0, isLocked)).toEqual(['L1', 'c', 'a', 'b']);
+        });
+
+        it('ロックされたアイテムは移動できない', () => {
+            const data = ['a', 'L1', 'b'];
+            expect(moveItem(data, 1, 0, isLocked)).toBe(data);
+        });
+
+        it('範囲外の fromIndex では変化しない', () => {
+            const data = ['a', 'b'];
+            expect(moveItem(data, 5, 0)).toBe(data);
+        });
+
+        it('境界を指定するとセクション内のインデックスを維持する', () => {
+            const isBoundary = (item: string) => item.startsWith('#');
+            // a をセクション#2の末尾へ移動しても L1 はセクション#1の1番目のまま
+            const data = ['#1', 'a', 'L1', 'b', '#2', 'c'];
+            expect(moveItem(data, 1, 5, isLocked, isBoundary)).toEqual(['#1', 'b', 'L1', '#2', 'c', 'a']);
+        });
+    });
+
+    // =========================================================================
+    // moveItems
+    // =========================================================================
+    describe('moveItems', () => {
+        it('複数のアイテムを元の順序のまま連続して挿入する', () => {
+            // a と c を除いた [b, d, e] の2番目に挿入
+            expect(moveItems(['a', 'b', 'c', 'd', 'e'], [2, 0], 2)).toEqual(['b', 'd', 'a', 'c', 'e']);
+            expect(moveItems(['a', 'b', 'c', 'd', 'e'], [1, 4], 0)).toEqual(['b', 'e', 'a', 'c', 'd']);
+        });
+
+        it('ロックされたアイテムは移動せずインデックスを維持する', () => {
+            expect(moveItems(['a', 'L1', 'b', 'c'], [0, 1, 2], 2, isLocked)).toEqual(['c', 'L1', 'a', 'b']);
+        });
+
+        it('移動できるアイテムがなければ変化しない', () => {
+            const data = ['a', 'L1'];
+            expect(moveItems(data, [1, 5], 0, isLocked)).toBe(data);
+        });
+    });
+
+    // =========================================================================
+    // swapItems
+    // =========================================================================
+    describe('swapItems', () => {
+        it('2つのアイテムを入れ替える', () => {
+            expect(swapItems(['a', 'b', 'c'], 0, 2)).toEqual(['c', 'b', 'a']);
+        });
+
+        it('どちらかがロックされていれば変化しない', () => {
+            const data = ['a', 'L1', 'c'];
+            expect(swapItems(data, 0, 1, isLocked)).toBe(data);
+            expect(swapItems(data, 1, 2, isLocked)).toBe(data);
+        });
+    });
+
+    // =========================================================================
+    // keepLockedIndices
+    // =========================================================================
+    describe('keepLockedIndices', () => {
+        it('区間が短くなった場合は末尾に置かれる', () => {
+            expect(keepLockedIndices(['a', 'b', 'L1'], ['a', 'L1'], isLocked)).toEqual(['a', 'L1']);
+        });
+
+        it('削除されたロックアイテムは無視される', () => {
+            expect(keepLockedIndices(['L1', 'a', 'b'], ['b', 'a'], isLocked)).toEqual(['b', 'a']);
+        });
+    });
+
+    // =========================================================================
+    // getMoveTarget
+    // =========================================================================
+    describe('getMoveTarget', () => {
+        it('区間がなければ挿入位置と前後のアイテムを返す', () => {
+            expect(getMoveTarget(['a', 'b', 'c'], 1)).toEqual({ index: 1, boundary: null, before: 'a', after: 'b' });
+            expect(getMoveTarget(['a', 'b', 'c'], 0)).toEqual({ index: 0, boundary: null, before: undefined, after: 'a' });
+            expect(getMoveTarget(['a', 'b', 'c'], 3)).toEqual({ index: 3, boundary: null, before: 'c', after: undefined });
+        });
+
+        it('区間内のインデックスと境界を返し、隣に境界を含めない', () => {
+            const data = ['#1', 'a', 'b', '#2', 'c'];
+            expect(getMoveTarget(data, 3, isHeader)).toEqual({ index: 2, boundary: '#1', before: 'b', after: undefined });
+            expect(getMoveTarget(data, 4, isHeader)).toEqual({ index: 0, boundary: '#2', before: undefined, after: 'c' });
+            expect(getMoveTarget(data, 1, isHeader)).toEqual({ index: 0, boundary: '#1', before: undefined, after: 'a' });
+        });
+
+        it('最初の境界より前はnullを返す', () => {
+            expect(getMoveTarget(['#1', 'a'], 0, isHeader)).toBeNull();
+        });
+    });
+
+    // =========================================================================
+    // getSwapTarget
+    // =========================================================================
+    describe('getSwapTarget', () => {
+        it('入れ替えた後の位置と前後のアイテムを返す', () => {
+            // a を c と入れ替えると ['c', 'b', 'a', 'd']
+            expect(getSwapTarget(['a', 'b', 'c', 'd'], 0, 2)).toEqual({ index: 2, boundary: null, before: 'b', after: 'd' });
+        });
+
+        it('別の区間との入れ替えは区間内の位置を返す', () => {
+            // a を c と入れ替えると ['#1', 'c', 'b', '#2', 'a']
+            expect(getSwapTarget(['#1', 'a', 'b', '#2', 'c'], 1, 4, undefined, isHeader))
+                .toEqual({ index: 0, boundary: '#2', before: undefined, after: undefined });
+        });
+    });
+
+    // =========================================================================
+    // createInsertIndexCheck
+    // =========================================================================
+    describe('createInsertIndexCheck', () => {
+        it('各挿入位置を判定し、元の位置は常に許可する', () => {
+            // 固定ブロック（先頭2件）の外にしか移動できないアイテム
+            const canMoveTo = jest.fn(({ index }: { index: number }) => index >= 2);
+            const isAllowed = createInsertIndexCheck(['p1', 'p2', 'a', 'b'], 0, canMoveTo);
+            expect([0, 1, 2, 3, 4].map(isAllowed)).toEqual([true, false, true, true, true]);
+            expect(isAllowed(-1)).toBe(false);
+            expect(isAllowed(5)).toBe(false);
+        });
+
+        it('必要になった位置だけを一度ずつ判定する', () => {
+            const canMoveTo = jest.fn(() => true);
+            const isAllowed = createInsertIndexCheck(['a', 'b', 'c', 'd'], 0, canMoveTo);
+            expect(canMoveTo).not.toHaveBeenCalled();
+            isAllowed(2);
+            isAllowed(2);
+            isAllowed(3);
+            expect(canMoveTo).toHaveBeenCalledTimes(2);
+        });
+
+        it('最初の境界より前は判定せずに禁止する', () => {
+            const canMoveTo = jest.fn(() => true);
+            const isAllowed = createInsertIndexCheck(['#1', 'a', '#2'], 1, canMoveTo, isHeader);
+            expect([0, 1, 2, 3].map(isAllowed)).toEqual([false, true, true, true]);
+            expect(canMoveTo).toHaveBeenCalledTimes(2);
+        });
+
+        it('前後のアイテムを判定に渡す', () => {
+            const canMoveTo = jest.fn(() => true);
+            const isAllowed = createInsertIndexCheck(['#1', 'a', '#2', 'b'], 1, canMoveTo, isHeader);
+            isAllowed(2);
+            isAllowed(3);
+            expect(canMoveTo).toHaveBeenCalledWith({ index: 1, boundary: '#1', before: 'a', after: undefined });
+            expect(canMoveTo).toHaveBeenCalledWith({ index: 0, boundary: '#2', before: undefined, after: 'b' });
+        });
+    });
+
+    // =========================================================================
+    // replayOrder
+    // =========================================================================
+    describe('replayOrder', () => {
+        const keyOf = (item: { id: string }) => item.id;
+
+        it('記録した並び順に並べ替え、現在のアイテムを使う', () => {
+            const data = [{ id: 'b' }, { id: 'a', edited: true }, { id: 'c' }];
+            expect(replayOrder(data, ['b', 'a', 'c'], ['a', 'b', 'c'], keyOf))
+                .toEqual([{ id: 'a', edited: true }, { id: 'b' }, { id: 'c' }]);
+        });
+
+        it('現在の並び順が記録と違えばnullを返す', () => {
+            const data = [{ id: 'a' }, { id: 'b' }];
+            expect(replayOrder(data, ['b', 'a'], ['a', 'b'], keyOf)).toBeNull();
+            expect(replayOrder(data, ['a', 'b', 'c'], ['c', 'b', 'a'], keyOf)).toBeNull();
+            expect(replayOrder(data, ['a', 'b'], ['a', 'x'], keyOf)).toBeNull();
+        });
+
+        it('ページを追加した後でも、記録したアイテムだけを並べ替えて追加分は末尾に残す', () => {
+            // ['a', 'b', 'c'] で c を先頭に移動 → 次のページ d, e を読み込み → undo
+            const data = [{ id: 'c' }, { id: 'a' }, { id: 'b' }, { id: 'd' }, { id: 'e' }];
+            expect(replayOrder(data, ['c', 'a', 'b'], ['a', 'b', 'c'], keyOf)?.map(keyOf))
+                .toEqual(['a', 'b', 'c', 'd', 'e']);
+        });
+
+        it('間に追加されたアイテムは今の位置に残す', () => {
+            const data = [{ id: 'new' }, { id: 'b' }, { id: 'x' }, { id: 'a' }];
+            expect(replayOrder(data, ['b', 'a'], ['a', 'b'], keyOf)?.map(keyOf))
+                .toEqual(['new', 'a', 'x', 'b']);
+        });
+    });
+});
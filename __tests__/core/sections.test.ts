@@ -0,0 +1,81 @@
+import {
+    flattenSections,
+    isSectionHeader,
+    locateInSections,
+    stripSectionHeaders,
+    unflattenSections,
+} from '../../src/core/sections';
+import type { MasonryItem, MasonrySection } from '../../src/core/types';
+
+// Test data
+const mockSections: MasonrySection<MasonryItem>[] = [
+    { key: 'pinned', title: 'Pinned', data: [{ id: '1', height: 100 }, { id: '2', height: 150 }] },
+    { key: 'others', title: 'Others', data: [{ id: '3', height: 120 }] },
+    { key: 'empty', data: [] },
+];
+
+describe('sections.ts - Sections', () => {
+    describe('flattenSections', () => {
+        it('各セクションの前にヘッダーが挿入される', () => {
+            const entries = flattenSections(mockSections);
+            expect(entries.map(entry => entry.id)).toEqual([
+                '__section__:pinned', '1', '2', '__section__:others', '3', '__section__:empty',
+            ]);
+        });
+
+        it('ヘッダーは全カラムにまたがり、セクションを保持する', () => {
+            const [header] = flattenSections(mockSections);
+            expect(isSectionHeader(header)).toBe(true);
+            expect(header.span).toBeGreaterThan(100);
+            expect(isSectionHeader(header) && header.section.title).toBe('Pinned');
+        });
+
+        it('headerHeight がヘッダーの高さになる', () => {
+            const [header] = flattenSections([{ key: 'a', headerHeight: 40, data: [] }]);
+            expect(header.height).toBe(40);
+        });
+
+        it('通常のアイテムはヘッダーと判定されない', () => {
+            expect(isSectionHeader({ id: '1', height: 100 })).toBe(false);
+        });
+    });
+
+    describe('unflattenSections', () => {
+        it('ヘッダーの位置でアイテムが振り分けられる', () => {
+            const entries = flattenSections(mockSections);
+            // アイテム1を Others セクションの末尾へ移動
+            const [moved] = entries.splice(1, 1);
+            entries.splice(4, 0, moved);
+
+            const result = unflattenSections(entries);
+            expect(result.map(section => section.data.map(item => item.id))).toEqual([['2'], ['3', '1'], []]);
+            expect(result[1].title).toBe('Others');
+        });
+
+        it('元のセクションは変更されない', () => {
+            unflattenSections(flattenSections(mockSections));
+            expect(mockSections[0].data.length).toBe(2);
+        });
+    });
+
+    describe('stripSectionHeaders', () => {
+        it('ヘッダーを除いたアイテムのみを返す', () => {
+            expect(stripSectionHeaders(flattenSections(mockSections)).map(item => item.id)).toEqual(['1', '2', '3']);
+        });
+    });
+
+    describe('locateInSections', () => {
+        it('セクションキーとセクション内インデックスを返す', () => {
+            const entries = flattenSections(mockSections);
+            expect(locateInSections(entries, 1)).toEqual({ section: 'pinned', index: 0 });
+            expect(locateInSections(entries, 2)).toEqual({ section: 'pinned', index: 1 });
+            expect(locateInSections(entries, 4)).toEqual({ section: 'others', index: 0 });
+        });
+
+        it('範囲外のインデックスでは null', () => {
+            const entries = flattenSections(mockSections);
+            expect(locateInSections(entries, -1)).toBeNull();
+            expect(locateInSections(entries, 10)).toBeNull();
+        });
+    });
+});
@@ -0,0 +1,128 @@
+import { filterVisibleItems, findInsertIndex, findSwapTarget } from '../../src/core/hitTest';
+import { calculateLayout } from '../../src/core/layout';
+import { buildSpatialIndex, findFirstEntryBelow, queryRange } from '../../src/core/spatialIndex';
+import type { MasonryItem } from '../../src/core/types';
+
+const keyExtractor = (item: MasonryItem) => item.id;
+
+const params = {
+    columns: 3,
+    containerWidth: 320,
+    rowGap: 10,
+    columnGap: 10,
+    keyExtractor,
+};
+
+// 高さとspanがばらつくデータ（決定的な疑似乱数）
+const createData = (count: number): MasonryItem[] => {
+    let seed = 7;
+    const next = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+    return Array.from({ length: count }, (_, i) => ({
+        id: String(i),
+        height: 40 + Math.floor(next() * 200),
+        span: next() < 0.1 ? 2 : 1,
+    }));
+};
+
+describe('spatialIndex.ts - Spatial Index', () => {
+    // 1: c0 y0-100 / 2: c1 y0-150 / 3: c0 y110-230 / 4: c1 y160-240
+    const data: MasonryItem[] = [
+        { id: '1', height: 100 },
+        { id: '2', height: 150 },
+        { id: '3', height: 120 },
+        { id: '4', height: 80 },
+    ];
+    const { positions } = calculateLayout(data, 'shortestColumn', { ...params, columns: 2, containerWidth: 210 });
+
+    describe('buildSpatialIndex', () => {
+        it('カラムごとに上端順のエントリを作る', () => {
+            const index = buildSpatialIndex(data, positions, keyExtractor, 2);
+            expect(index.columns[0].map(entry => entry.index)).toEqual([0, 2]);
+            expect(index.columns[1].map(entry => entry.index)).toEqual([1, 3]);
+            expect(index.indexByKey.get('4')).toBe(3);
+        });
+
+        it('複数カラムにまたがるアイテムは各カラムに入る', () => {
+            const spanned = [{ id: 'wide', height: 50, span: 2 }, { id: 'a', height: 30 }];
+            const layout = calculateLayout(spanned, 'shortestColumn', { ...params, columns: 2, containerWidth: 210 });
+            const index = buildSpatialIndex(spanned, layout.positions, keyExtractor, 2);
+            expect(index.columns[0].map(entry => entry.index)).toEqual([0, 1]);
+            expect(index.columns[1].map(entry => entry.index)).toEqual([0]);
+        });
+
+        it('上端順でない位置（カスタム戦略）はソートする', () => {
+            const reversed = {
+                '1': { x: 0, y: 100, width: 100, height: 50, column: 0, span: 1 },
+                '2': { x: 0, y: 0, width: 100, height: 50, column: 0, span: 1 },
+            };
+            const index = buildSpatialIndex(data.slice(0, 2), reversed, keyExtractor, 1);
+            expect(index.columns[0].map(entry => entry.index)).toEqual([1, 0]);
+            expect(index.maxBottoms[0]).toEqual([50, 150]);
+        });
+    });
+
+    describe('findFirstEntryBelow', () => {
+        it('下端がyを超える最初の位置を返す', () => {
+            expect(findFirstEntryBelow([100, 230], 50)).toBe(0);
+            expect(findFirstEntryBelow([100, 230], 100)).toBe(1);
+            expect(findFirstEntryBelow([100, 230], 100, true)).toBe(0);
+            expect(findFirstEntryBelow([100, 230], 300)).toBe(2);
+        });
+    });
+
+    describe('queryRange', () => {
+        it('範囲と重なるアイテムをデータ順で返す', () => {
+            const index = buildSpatialIndex(data, positions, keyExtractor, 2);
+            expect(queryRange(index, 0, 50)).toEqual([0, 1]);
+            expect(queryRange(index, 155, 200)).toEqual([2, 3]);
+            expect(queryRange(index, 300, 400)).toEqual([]);
+        });
+    });
+
+    // =========================================================================
+    // 全件走査との一致（大量データ）
+    // =========================================================================
+    describe('全件走査との一致', () => {
+        const many = createData(10000);
+        const layout = calculateLayout(many, 'shortestColumn', params);
+        const index = buildSpatialIndex(many, layout.positions, keyExtractor, 3);
+
+        it('filterVisibleItems が同じ結果を返す', () => {
+            for (let scrollY = 0; scrollY < layout.totalHeight; scrollY += 7919) {
+                const linear = filterVisibleItems(many, layout.positions, scrollY, 800, 400, keyExtractor, '5');
+                const indexed = filterVisibleItems(many, layout.positions, scrollY, 800, 400, keyExtractor, '5', index);
+                expect(indexed).toEqual(linear);
+            }
+        });
+
+        it('findInsertIndex が同じ結果を返す', () => {
+            const isTarget = (item: MasonryItem) => Number(item.id) % 13 !== 0;
+            for (let y = -200; y < layout.totalHeight + 200; y += 3571) {
+                for (const x of [0, 110, 220, 60]) {
+                    const width = x === 60 ? 210 : 100;
+                    const args = [x, y, width, 100, many, layout.positions, keyExtractor, '42', 0, 3, 100, 10, isTarget] as const;
+                    expect(findInsertIndex(...args, index)).toBe(findInsertIndex(...args));
+                }
+            }
+        });
+
+        it('findSwapTarget が同じ結果を返す', () => {
+            for (let y = 0; y < layout.totalHeight; y += 4999) {
+                for (const x of [50, 160, 270]) {
+                    const args = [x, y, many, layout.positions, keyExtractor, '42'] as const;
+                    expect(findSwapTarget(...args, undefined, index)).toBe(findSwapTarget(...args));
+                }
+            }
+        });
+
+        it('ドラッグ中のアイテムを除いたデータでも同じ結果を返す', () => {
+            const withoutDragged = many.filter(item => item.id !== '42');
+            const draggedLayout = calculateLayout(withoutDragged, 'shortestColumn', params);
+            const draggedIndex = buildSpatialIndex(withoutDragged, draggedLayout.positions, keyExtractor, 3);
+            for (let y = 0; y < draggedLayout.totalHeight; y += 6007) {
+                const args = [110, y, 100, 100, withoutDragged, draggedLayout.positions, keyExtractor, '42', 0, 3, 100, 10] as const;
+                expect(findInsertIndex(...args, undefined, draggedIndex)).toBe(findInsertIndex(...args));
+            }
+        });
+    });
+});
@@ -1,4 +1,5 @@
 import {
+    DEFAULT_ACCESSIBILITY_STRINGS,
     DEFAULT_PROPS,
     type DragEndParams,
     type DraggableMasonryListProps,
@@ -13,10 +14,18 @@ describe('types.ts - Props and Types', () => {
     // DEFAULT_PROPS Tests
     // =========================================================================
     describe('DEFAULT_PROPS', () => {
+        it('horizontal のデフォルト値が false', () => {
+            expect(DEFAULT_PROPS.horizontal).toBe(false);
+        });
+
         it('columns のデフォルト値が 2', () => {
             expect(DEFAULT_PROPS.columns).toBe(2);
         });
 
+        it('layoutStrategy のデフォルト値が "shortestColumn"', () => {
+            expect(DEFAULT_PROPS.layoutStrategy).toBe('shortestColumn');
+        });
+
         it('rowGap のデフォルト値が 10', () => {
             expect(DEFAULT_PROPS.rowGap).toBe(10);
         });
@@ -25,6 +34,10 @@ describe('types.ts - Props and Types', () => {
             expect(DEFAULT_PROPS.columnGap).toBe(10);
         });
 
+        it('estimatedItemHeight のデフォルト値が 100', () => {
+            expect(DEFAULT_PROPS.estimatedItemHeight).toBe(100);
+        });
+
         it('sortEnabled のデフォルト値が true', () => {
             expect(DEFAULT_PROPS.sortEnabled).toBe(true);
         });
@@ -117,9 +130,45 @@ describe('types.ts - Props and Types', () => {
             expect(DEFAULT_PROPS.swapMode).toBe(false);
         });
 
-        it('全26個のデフォルト値が定義されている', () => {
+        it('onEndReachedThreshold のデフォルト値が 0.5', () => {
+            expect(DEFAULT_PROPS.onEndReachedThreshold).toBe(0.5);
+        });
+
+        it('refreshing のデフォルト値が false', () => {
+            expect(DEFAULT_PROPS.refreshing).toBe(false);
+        });
+
+        it('mergeDwellTime のデフォルト値が 500', () => {
+            expect(DEFAULT_PROPS.mergeDwellTime).toBe(500);
+        });
+
+        it('dragHandleMode のデフォルト値が item', () => {
+            expect(DEFAULT_PROPS.dragHandleMode).toBe('item');
+        });
+
+        it('historyLimit のデフォルト値が 50', () => {
+            expect(DEFAULT_PROPS.historyLimit).toBe(50);
+        });
+
+        it('accessibilityReorder のデフォルト値が false', () => {
+            expect(DEFAULT_PROPS.accessibilityReorder).toBe(false);
+        });
+
+        it('全35個のデフォルト値が定義されている', () => {
             const propCount = Object.keys(DEFAULT_PROPS).length;
-            expect(propCount).toBe(26);
+            expect(propCount).toBe(35);
+        });
+    });
+
+    describe('DEFAULT_ACCESSIBILITY_STRINGS', () => {
+        it('全ての並び替え操作のラベルを持つ', () => {
+            expect(DEFAULT_ACCESSIBILITY_STRINGS.moveUp).toBe('Move up');
+            expect(DEFAULT_ACCESSIBILITY_STRINGS.moveNextColumn).toBe('Move to next column');
+            expect(DEFAULT_ACCESSIBILITY_STRINGS.moveToEnd).toBe('Move to end');
+        });
+
+        it('移動後の読み上げに位置と件数を含める', () => {
+            expect(DEFAULT_ACCESSIBILITY_STRINGS.movedTo(4, 20)).toBe('Moved to position 4 of 20');
         });
     });
 
@@ -127,7 +176,7 @@ describe('types.ts - Props and Types', () => {
     // Type Structure Tests
     // =========================================================================
     describe('MasonryItem Type', () => {
-        it('id と height が必須プロパティ', () => {
+        it('id が必須プロパティ、height を持てる', () => {
             const item: MasonryItem = {
                 id: 'test-1',
                 height: 100,
@@ -136,6 +185,11 @@ describe('types.ts - Props and Types', () => {
             expect(item.height).toBe(100);
         });
 
+        it('height を省略できる（計測される）', () => {
+            const item: MasonryItem = { id: 'test-1' };
+            expect(item.height).toBeUndefined();
+        });
+
         it('追加プロパティを持てる', () => {
             const item: MasonryItem = {
                 id: 'test-1',
@@ -160,37 +214,51 @@ describe('types.ts - Props and Types', () => {
     });
 
     describe('Callback Params Types', () => {
-        it('DragStartParams が key と fromIndex を持つ', () => {
+        it('DragStartParams が key, keys, fromIndex を持つ', () => {
             const params: DragStartParams = {
                 key: 'item-1',
+                keys: ['item-1', 'item-3'],
                 fromIndex: 2,
             };
             expect(params.key).toBe('item-1');
+            expect(params.keys).toEqual(['item-1', 'item-3']);
             expect(params.fromIndex).toBe(2);
         });
 
-        it('DragEndParams が key, fromIndex, toIndex, data を持つ', () => {
+        it('DragEndParams が key, keys, fromIndex, toIndex, data, column, indexInColumn, source, result を持つ', () => {
             const params: DragEndParams<MasonryItem> = {
                 key: 'item-1',
+                keys: ['item-1'],
                 fromIndex: 0,
                 toIndex: 2,
                 data: [{ id: 'item-1', height: 100 }],
+                column: 1,
+                indexInColumn: 0,
+                source: 'drag',
+                result: 'reorder',
             };
             expect(params.key).toBe('item-1');
+            expect(params.keys).toEqual(['item-1']);
             expect(params.fromIndex).toBe(0);
             expect(params.toIndex).toBe(2);
             expect(params.data.length).toBe(1);
+            expect(params.column).toBe(1);
+            expect(params.indexInColumn).toBe(0);
+            expect(params.source).toBe('drag');
+            expect(params.result).toBe('reorder');
         });
 
-        it('OrderChangeParams が key, fromIndex, toIndex を持つ', () => {
+        it('OrderChangeParams が key, fromIndex, toIndex, source を持つ', () => {
             const params: OrderChangeParams = {
                 key: 'item-1',
                 fromIndex: 0,
                 toIndex: 3,
+                source: 'api',
             };
             expect(params.key).toBe('item-1');
             expect(params.fromIndex).toBe(0);
             expect(params.toIndex).toBe(3);
+            expect(params.source).toBe('api');
         });
     });
 
@@ -1,5 +1,16 @@
-import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
-import { Dimensions, LayoutChangeEvent, StyleSheet, View } from 'react-native';
+import React, { forwardRef, useCallback, useContext, useEffect, useImperativeHandle, useMemo, useRef, useState } from 'react';
+import {
+    AccessibilityInfo,
+    Dimensions,
+    I18nManager,
+    LayoutChangeEvent,
+    RefreshControl,
+    StyleSheet,
+    View,
+    type AccessibilityActionInfo,
+    type StyleProp,
+    type ViewStyle,
+} from 'react-native';
 import { Gesture, GestureDetector } from 'react-native-gesture-handler';
 
 import type { SharedValue } from 'react-native-reanimated';
@@ -15,210 +26,67 @@ import Animated, {
     useSharedValue,
     withTiming,
 } from 'react-native-reanimated';
+import { filterVisibleItems, findDragColumns, findInsertIndex, findMergeTarget, findSwapTarget } from './core/hitTest';
+import {
+    calculateLayout,
+    createLayoutCache,
+    getIndexInColumn,
+    mirrorPosition,
+    resolveColumns,
+    resolveItemHeight,
+    resolveItemWidth,
+    transposePosition,
+    type LayoutCache,
+} from './core/layout';
+import {
+    createInsertIndexCheck,
+    getMoveTarget,
+    getSwapTarget,
+    moveItem,
+    moveItems,
+    replayOrder,
+    swapItems,
+    type MoveTarget,
+} from './core/reorder';
+import { buildSpatialIndex, type SpatialIndex } from './core/spatialIndex';
+import {
+    flattenSections,
+    isSectionHeader,
+    locateInSections,
+    stripSectionHeaders,
+    unflattenSections,
+    type SectionEntry,
+} from './core/sections';
+import { MasonryDragContext, type MasonryListHandle, type WindowRect } from './MasonryDragProvider';
 import MasonryItem from './MasonryItem';
 import type {
     ColumnLayout,
     DraggableMasonryListProps,
+    DraggableMasonryListRef,
+    DragEndResult,
+    HistoryChangeParams,
     ItemPosition,
-    MasonryItem as MasonryItemType
+    LayoutStrategy,
+    ListComponent,
+    MasonryItem as MasonryItemType,
+    MoveItemOptions,
+    ReorderSource,
+    RenderItemInfo,
+    ScrollToIndexOptions,
+    ScrollToItemOptions,
+    ScrollToOffsetOptions
 } from './types';
-import { DEFAULT_PROPS } from './types';
+import { DEFAULT_ACCESSIBILITY_STRINGS, DEFAULT_PROPS } from './types';
 
-/**
- * 1次元配列からレイアウトを計算（最も低いカラムに配置）
- */
-function calculateLayout<T extends MasonryItemType>(
-    data: T[],
-    numColumns: number,
-    containerWidth: number,
-    rowGap: number,
-    columnGap: number,
-    keyExtractor: (item: T) => string
-): ColumnLayout {
-    const columnWidth = (containerWidth - (numColumns - 1) * columnGap) / numColumns;
-    const columnHeights = new Array(numColumns).fill(0);
-    const positions: Record<string, ItemPosition> = {};
-
-    for (const item of data) {
-        let minHeight = columnHeights[0];
-        let minColumn = 0;
-        for (let c = 1; c < numColumns; c++) {
-            if (columnHeights[c] < minHeight) {
-                minHeight = columnHeights[c];
-                minColumn = c;
-            }
-        }
-
-        const x = minColumn * (columnWidth + columnGap);
-        const y = columnHeights[minColumn];
-
-        positions[keyExtractor(item)] = {
-            x,
-            y,
-            width: columnWidth,
-            height: item.height,
-            column: minColumn,
-        };
-
-        columnHeights[minColumn] += item.height + rowGap;
-    }
+const defaultKeyExtractor = (item: MasonryItemType) => item.id;
 
-    const totalHeight = Math.max(...columnHeights, 0);
-    return { positions, totalHeight };
-}
+// スクリーンリーダー向けの並び替え操作（名前はReorderAccessibilityStringsのキー）
+const REORDER_ACTIONS = ['moveUp', 'moveDown', 'movePreviousColumn', 'moveNextColumn', 'moveToStart', 'moveToEnd'] as const;
 
-function findSwapTarget<T extends MasonryItemType>(
-    dragCenterX: number,
-    dragCenterY: number,
-    data: T[],
-    positions: Record<string, ItemPosition>,
-    keyExtractor: (item: T) => string,
-    dragId: string,
-): number {
-    let closestIndex = -1;
-    let closestDist = Infinity;
-
-    for (let i = 0; i < data.length; i++) {
-        const item = data[i];
-        const id = keyExtractor(item);
-        if (id === dragId) continue;
-
-        const pos = positions[id];
-        if (!pos) continue;
-
-        const centerX = pos.x + pos.width / 2;
-        const centerY = pos.y + pos.height / 2;
-        const dist = Math.sqrt((dragCenterX - centerX) ** 2 + (dragCenterY - centerY) ** 2);
-
-        const isOverlapping =
-            dragCenterX >= pos.x &&
-            dragCenterX <= pos.x + pos.width &&
-            dragCenterY >= pos.y &&
-            dragCenterY <= pos.y + pos.height;
-
-        if (isOverlapping && dist < closestDist) {
-            closestDist = dist;
-            closestIndex = i;
-        }
-    }
-
-    return closestIndex;
-}
-
-/**
- * ドラッグ位置から挿入インデックスを計算（直感的なMasonryレイアウト対応）
- * 
- * アルゴリズム:
- * 1. ドラッグアイテムの中心がどのカラムにあるかを判定
- * 2. 同じカラム内のアイテムとのみ入れ替えを行う
- * 3. Y座標に基づいて挿入位置を決定
- */
-function findInsertIndex<T extends MasonryItemType>(
-    dragX: number,
-    dragY: number,
-    dragWidth: number,
-    dragHeight: number,
-    data: T[],
-    positions: Record<string, ItemPosition>,
-    keyExtractor: (item: T) => string,
-    dragId: string,
-    currentInsertIndex: number,
-    numColumns: number,
-    columnGap: number
-): number {
-    const dragCenterX = dragX + dragWidth / 2;
-    const dragCenterY = dragY + dragHeight / 2;
-
-    const filteredData = data.filter(item => keyExtractor(item) !== dragId);
-
-    if (filteredData.length === 0) return 0;
-
-    // カラム幅を計算
-    const firstPos = Object.values(positions)[0];
-    if (!firstPos) return 0;
-    const columnWidth = firstPos.width;
-
-    // ドラッグアイテムがどのカラムにいるかを判定
-    const dragColumn = Math.floor(dragCenterX / (columnWidth + columnGap));
-    const clampedColumn = Math.max(0, Math.min(dragColumn, numColumns - 1));
-
-    // 同じカラム内のアイテムのみを抽出（Y座標でソート）
-    const sameColumnItems: { item: T; originalIndex: number; pos: ItemPosition }[] = [];
-
-    for (let i = 0; i < filteredData.length; i++) {
-        const item = filteredData[i];
-        const pos = positions[keyExtractor(item)];
-        if (!pos) continue;
-
-        const itemColumn = Math.floor(pos.x / (columnWidth + columnGap));
-        if (itemColumn === clampedColumn) {
-            sameColumnItems.push({ item, originalIndex: i, pos });
-        }
-    }
-
-    // 同じカラムにアイテムがない場合
-    if (sameColumnItems.length === 0) {
-        // 全アイテムのY座標を見て、適切な位置に挿入
-        let insertIndex = 0;
-        for (let i = 0; i < filteredData.length; i++) {
-            const item = filteredData[i];
-            const pos = positions[keyExtractor(item)];
-            if (!pos) continue;
-
-            const itemCenterY = pos.y + pos.height / 2;
-            if (dragCenterY > itemCenterY) {
-                insertIndex = i + 1;
-            }
-        }
-        return insertIndex;
-    }
-
-    // Y座標でソート
-    sameColumnItems.sort((a, b) => a.pos.y - b.pos.y);
-
-    // 同じカラム内でY位置に基づいて挿入位置を決定
-    for (const { originalIndex, pos } of sameColumnItems) {
-        const threshold = pos.y + pos.height * 1;
-        if (dragCenterY < threshold) {
-            return originalIndex;
-        }
-    }
-
-    // 全てより下にいる場合は最後のアイテムの後
-    const lastItem = sameColumnItems[sameColumnItems.length - 1];
-    return lastItem.originalIndex + 1;
-}
-
-
-/**
- * 可視範囲内のアイテムをフィルタリング
- */
-function filterVisibleItems<T extends MasonryItemType>(
-    data: T[],
-    positions: Record<string, ItemPosition>,
-    scrollY: number,
-    viewportHeight: number,
-    overscanPixels: number,
-    keyExtractor: (item: T) => string,
-    activeDragId: string | null
-): T[] {
-    const visibleTop = scrollY - overscanPixels;
-    const visibleBottom = scrollY + viewportHeight + overscanPixels;
-
-    return data.filter(item => {
-        if (activeDragId && keyExtractor(item) === activeDragId) {
-            return true;
-        }
-
-        const pos = positions[keyExtractor(item)];
-        if (!pos) return false;
-
-        const itemTop = pos.y;
-        const itemBottom = pos.y + pos.height;
-
-        return itemBottom >= visibleTop && itemTop <= visibleBottom;
-    });
-}
+// ドラッグ中にレイアウトを計算する範囲（スクロール位置から画面何個分先まで）
+const DRAG_LAYOUT_VIEWPORTS = 3;
+type ReorderAction = typeof REORDER_ACTIONS[number];
+const COLUMN_ACTIONS: readonly ReorderAction[] = ['movePreviousColumn', 'moveNextColumn'];
 
 /**
  * ドロップインジケーターコンポーネント（アニメーション対応）
@@ -230,9 +98,12 @@ interface DropIndicatorProps {
     height: SharedValue<number>;
     opacity: SharedValue<number>;
     style?: any;
+    /** canMoveToで禁止された位置の上にある */
+    invalid: boolean;
+    invalidStyle?: StyleProp<ViewStyle>;
 }
 
-const DropIndicator = React.memo(({ x, y, width, height, opacity, style }: DropIndicatorProps) => {
+const DropIndicator = React.memo(({ x, y, width, height, opacity, style, invalid, invalidStyle }: DropIndicatorProps) => {
     const animatedStyle = useAnimatedStyle(() => ({
         position: 'absolute' as const,
         left: x.value,
@@ -248,21 +119,109 @@ const DropIndicator = React.memo(({ x, y, width, height, opacity, style }: DropI
                 styles.dropIndicator,
                 animatedStyle,
                 style,
+                invalid && [styles.dropIndicatorInvalid, invalidStyle],
             ]}
         />
     );
 });
 
+/**
+ * 挿入モードのドラッグ中に使う判定対象（ドラッグ中のアイテムを除いたデータ・レイアウト・索引）
+ */
+interface DropTargets<T> {
+    data: T[];
+    positions: Record<string, ItemPosition>;
+    index: SpatialIndex;
+}
+
+/**
+ * グループドラッグ（選択中のアイテムをまとめて移動）の対象
+ */
+interface DragGroup<T> {
+    /** ドラッグ中のアイテムを含む全てのキー（データ順） */
+    keys: string[];
+    /** ドラッグ中のアイテムの下に重ねるアイテム（レイアウトからは外す） */
+    followers: T[];
+    followerKeys: Set<string>;
+    /** 重ねるアイテムのドラッグ開始時の位置（サイズの参照用） */
+    positions: Record<string, ItemPosition>;
+}
+
+/**
+ * 他のリストからドラッグ中のアイテムの仮挿入（挿入位置を確保してドロップインジケーターを表示）
+ */
+interface IncomingDrag<T> {
+    item: T;
+    key: string;
+    /** 挿入位置（仮挿入前のデータでのインデックス） */
+    index: number;
+}
+
+/**
+ * 記録した並び替え（undo/redoで前後の並び順を再生する）
+ */
+interface HistoryEntry<T> {
+    key: string;
+    keys: string[];
+    before: T[];
+    after: T[];
+}
+
+/**
+ * リストヘッダー・フッター・空表示（スクロール方向の位置に絶対配置し、長さを計測）
+ */
+interface ListComponentSlotProps {
+    component: ListComponent | undefined;
+    offset: number;
+    horizontal: boolean;
+    onMeasure: (length: number) => void;
+}
+
+const ListComponentSlot = ({ component: Component, offset, horizontal, onMeasure }: ListComponentSlotProps) => {
+    if (!Component) return null;
+
+    const handleLayout = (e: LayoutChangeEvent) => {
+        const { width, height } = e.nativeEvent.layout;
+        onMeasure(horizontal ? width : height);
+    };
+
+    return (
+        <View
+            style={[
+                styles.listComponent,
+                horizontal ? { top: 0, bottom: 0, left: offset } : { left: 0, right: 0, top: offset },
+            ]}
+            onLayout={handleLayout}
+        >
+            {React.isValidElement(Component) ? Component : <Component />}
+        </View>
+    );
+};
+
 function DraggableMasonryList<T extends MasonryItemType>({
     data,
     renderItem,
-    keyExtractor = (item) => item.id,
+    sections,
+    renderSectionHeader,
+    keyExtractor: itemKeyExtractor = defaultKeyExtractor,
     sortEnabled = DEFAULT_PROPS.sortEnabled,
     swapMode = DEFAULT_PROPS.swapMode,
-    columns: numColumns = DEFAULT_PROPS.columns,
+    isItemLocked,
+    canDragItem,
+    canMoveTo,
+    selectedKeys,
+    listId,
+    horizontal = DEFAULT_PROPS.horizontal,
+    direction,
+    columns = DEFAULT_PROPS.columns,
+    layoutStrategy = DEFAULT_PROPS.layoutStrategy,
+    getItemSpan,
     rowGap = DEFAULT_PROPS.rowGap,
     columnGap = DEFAULT_PROPS.columnGap,
+    getItemHeight,
+    estimatedItemHeight = DEFAULT_PROPS.estimatedItemHeight,
     dragActivationDelay = DEFAULT_PROPS.dragActivationDelay,
+    dragHandleMode = DEFAULT_PROPS.dragHandleMode,
     activationAnimationDuration = DEFAULT_PROPS.activationAnimationDuration,
     dropAnimationDuration = DEFAULT_PROPS.dropAnimationDuration,
     overDrag = DEFAULT_PROPS.overDrag,
@@ -284,31 +243,153 @@ function DraggableMasonryList<T extends MasonryItemType>({
     dragOverscanCount = DEFAULT_PROPS.dragOverscanCount,
     showDropIndicator = DEFAULT_PROPS.showDropIndicator,
     dropIndicatorStyle,
+    invalidDropIndicatorStyle,
+    onMergeItems,
+    mergeDwellTime = DEFAULT_PROPS.mergeDwellTime,
+    mergeHighlightStyle,
     itemEntering,
     itemExiting,
     onDragStart,
     onDragEnd,
     onOrderChange,
     onDragChange,
+    onItemRemove,
+    onDropOutside,
+    historyLimit = DEFAULT_PROPS.historyLimit,
+    onHistoryChange,
+    accessibilityReorder = DEFAULT_PROPS.accessibilityReorder,
+    accessibilityStrings,
+    onEndReached,
+    onEndReachedThreshold = DEFAULT_PROPS.onEndReachedThreshold,
+    refreshControl,
+    onRefresh,
+    refreshing = DEFAULT_PROPS.refreshing,
+    ListHeaderComponent,
+    ListFooterComponent,
+    ListEmptyComponent,
     contentContainerStyle,
-}: DraggableMasonryListProps<T>) {
+}: DraggableMasonryListProps<T>, ref: React.ForwardedRef<DraggableMasonryListRef>) {
+    // セクションヘッダーを含む内部アイテム
+    type Entry = SectionEntry<T>;
+
+    // sectionsがあればヘッダー付きの1次元配列に変換
+    const sourceData = useMemo<Entry[]>(
+        () => (sections ? flattenSections(sections) : data ?? []),
+        [sections, data]
+    );
+
+    const keyExtractor = useCallback((item: Entry): string => {
+        return isSectionHeader(item) ? item.id : itemKeyExtractor(item);
+    }, [itemKeyExtractor]);
+
+    // ロックされたアイテムはドラッグ不可・ドロップ先にならず、インデックスを維持する
+    const isEntryLocked = useCallback((item: Entry): boolean => {
+        return !isSectionHeader(item) && !!isItemLocked?.(item);
+    }, [isItemLocked]);
+
+    // ドラッグを開始できるアイテム（セクションヘッダー・ロック・canDragItemで拒否されたものを除く）
+    const isEntryDraggable = useCallback((item: Entry): boolean => {
+        return !isSectionHeader(item) && !isEntryLocked(item) && (canDragItem?.(item) ?? true);
+    }, [isEntryLocked, canDragItem]);
+
     const [containerWidth, setContainerWidth] = useState(0);
-    const [windowHeight] = useState(() => Dimensions.get('window').height);
+    const [containerHeight, setContainerHeight] = useState(0);
+    const [windowSize] = useState(() => Dimensions.get('window'));
+
+    // レイアウトは論理座標（x/width = カラム方向、y/height = スクロール方向）で計算し、
+    // 横方向モードでは描画時に転置する
+    const crossSize = horizontal ? containerHeight : containerWidth;
+    // RTLではカラム順を左右反転（横方向モードでは行なので対象外）
+    const isRTL = !horizontal && (direction ? direction === 'rtl' : I18nManager.isRTL);
+    const viewportLength = horizontal ? windowSize.width : windowSize.height;
+
+    // リストヘッダー・フッター・空表示の計測結果（スクロール方向の長さ）
+    const [measuredHeaderLength, setHeaderLength] = useState(0);
+    const [measuredFooterLength, setFooterLength] = useState(0);
+    const [measuredEmptyLength, setEmptyLength] = useState(0);
+    const headerLength = ListHeaderComponent ? measuredHeaderLength : 0;
+    const footerLength = ListFooterComponent ? measuredFooterLength : 0;
 
     const [activeDragId, setActiveDragId] = useState<string | null>(null);
+    const [dragGroup, setDragGroup] = useState<DragGroup<SectionEntry<T>> | null>(null);
+    const dragGroupRef = useRef<DragGroup<SectionEntry<T>> | null>(null);
     const dragStartIndexRef = useRef<number>(-1);
-
-    const [orderedData, setOrderedData] = useState(data);
+    // ドラッグ開始時の挿入位置（他のリストの上ではここに戻す）
+    const dragStartInsertIndexRef = useRef<number>(-1);
+    // ドラッグ開始時のデータ（マージしたらスワップモードの入れ替えを戻す）
+    const dragStartDataRef = useRef<SectionEntry<T>[] | null>(null);
+    // マージ先（中央に重ねたまま一定時間経ったアイテム）と、待機中の候補
+    const [mergeTargetKey, setMergeTargetKey] = useState<string | null>(null);
+    // canMoveToで禁止された位置の上にある（元の位置に戻し、インジケーターを無効の表示にする）
+    const [isDropInvalid, setIsDropInvalid] = useState(false);
+    // 挿入モードで挿入位置（ドラッグ中のアイテムを除いたデータでのインデックス）に移動できるか（判定した位置を覚えておく）
+    const isInsertAllowedRef = useRef<((index: number) => boolean) | null>(null);
+    const mergeCandidateRef = useRef<{ key: string; timer: ReturnType<typeof setTimeout> } | null>(null);
+    // ドラッグ開始時のコールバック用の位置（sections使用時はセクション内の位置）
+    const dragStartLocationRef = useRef<{ index: number; section?: string } | null>(null);
+
+    const [orderedData, setOrderedData] = useState(sourceData);
     const orderedDataRef = useRef(orderedData);
 
+    // 並び替えの履歴（pastの末尾がundo、futureの末尾がredoの対象）
+    const historyRef = useRef<{ past: HistoryEntry<SectionEntry<T>>[]; future: HistoryEntry<SectionEntry<T>>[] }>({ past: [], future: [] });
+    const historyStateRef = useRef<HistoryChangeParams>({ canUndo: false, canRedo: false });
+
+    // MasonryDragProvider内ではドロップゾーンに落とせる（`listId`があれば他のリストとの間でもドラッグできる）
+    const dragContext = useContext(MasonryDragContext);
+    // ドラッグをプロバイダーに伝えているか（1つのアイテムは共通のオーバーレイに描画し、元のセルは隠す）
+    const [isProviderDrag, setIsProviderDrag] = useState(false);
+    // ドラッグ中のアイテムが他のリストかドロップゾーンの上にあるか
+    const [isOverOtherTarget, setIsOverOtherTarget] = useState(false);
+    const [incomingDrag, setIncomingDrag] = useState<IncomingDrag<SectionEntry<T>> | null>(null);
+    const incomingDragRef = useRef<IncomingDrag<SectionEntry<T>> | null>(null);
+
     // 新規追加アイテムを追跡（entering animationは新規アイテムにのみ適用）
-    const knownItemIds = useRef<Set<string>>(new Set(data.map(item => keyExtractor(item))));
+    const knownItemIds = useRef<Set<string>>(new Set(sourceData.map(item => keyExtractor(item))));
     const newItemIds = useRef<Set<string>>(new Set());
 
     const [targetInsertIndex, setTargetInsertIndex] = useState<number>(-1);
+    // 'anchored'戦略でドラッグ中のアイテムを置くカラム（null = アイテム自身のcolumn）
+    const [targetColumn, setTargetColumn] = useState<number | null>(null);
+    // ドラッグ中はレイアウトをこの位置（論理座標）までだけ計算し、先のアイテムは前回の位置のままにする
+    const [dragLayoutEnd, setDragLayoutEnd] = useState<number | undefined>(undefined);
+
+    // ドロップ時のハンドラーは再レンダリングされていないセルから古いまま呼ばれることがあるので、
+    // ドラッグ中に変わる状態はrefでも持ち、判定にはrefを使う
+    const activeDragIdRef = useRef<string | null>(null);
+    const targetInsertIndexRef = useRef(-1);
+    const targetColumnRef = useRef<number | null>(null);
+    const mergeTargetKeyRef = useRef<string | null>(null);
+    const dragLayoutEndRef = useRef<number | undefined>(undefined);
+    const updateActiveDragId = useCallback((id: string | null) => {
+        activeDragIdRef.current = id;
+        setActiveDragId(id);
+    }, []);
+    const updateTargetInsertIndex = useCallback((index: number) => {
+        if (targetInsertIndexRef.current === index) return;
+        targetInsertIndexRef.current = index;
+        setTargetInsertIndex(index);
+    }, []);
+    const updateTargetColumn = useCallback((column: number | null) => {
+        if (targetColumnRef.current === column) return;
+        targetColumnRef.current = column;
+        setTargetColumn(column);
+    }, []);
+    const updateDragLayoutEnd = useCallback((end: number | undefined) => {
+        if (dragLayoutEndRef.current === end) return;
+        dragLayoutEndRef.current = end;
+        setDragLayoutEnd(end);
+    }, []);
+
+    const isAnchored = layoutStrategy === 'anchored';
+
+    // サイズ未指定アイテムの計測結果（key → スクロール方向のサイズ）
+    const [measuredSizes, setMeasuredSizes] = useState<Record<string, number>>({});
+    const measuredSizesRef = useRef(measuredSizes);
+    const pendingMeasurementsRef = useRef<Record<string, number> | null>(null);
 
     // 仮想化用: 現在のスクロール位置（JS側で追跡）
-    const [currentScrollY, setCurrentScrollY] = useState(0);
+    const [currentScrollOffset, setCurrentScrollOffset] = useState(0);
 
     // ドロップアニメーション中フラグ（仮想化を遅延再開）
     const [isDropAnimating, setIsDropAnimating] = useState(false);
@@ -331,7 +412,7 @@ function DraggableMasonryList<T extends MasonryItemType>({
 
         if (!activeDragId) {
             // 新規アイテムを検出
-            const currentIds = new Set(data.map(item => keyExtractor(item)));
+            const currentIds = new Set(sourceData.map(item => keyExtractor(item)));
             const addedIds = new Set<string>();
             currentIds.forEach(id => {
                 if (!knownItemIds.current.has(id)) {
@@ -350,9 +431,22 @@ function DraggableMasonryList<T extends MasonryItemType>({
                 }, 400); // entering animation完了後
             }
 
-            setOrderedData(data);
-            orderedDataRef.current = data;
-            setTargetInsertIndex(-1);
+            // 削除されたアイテムの計測結果を破棄
+            const measuredIds = Object.keys(measuredSizesRef.current);
+            if (measuredIds.some(id => !currentIds.has(id))) {
+                const nextMeasured: Record<string, number> = {};
+                measuredIds.forEach(id => {
+                    if (currentIds.has(id)) {
+                        nextMeasured[id] = measuredSizesRef.current[id];
+                    }
+                });
+                measuredSizesRef.current = nextMeasured;
+                setMeasuredSizes(nextMeasured);
+            }
+
+            setOrderedData(sourceData);
+            orderedDataRef.current = sourceData;
+            updateTargetInsertIndex(-1);
             // ドロップ後はフェードアウトアニメーション
             if (isDropIndicatorVisible.current) {
                 // ドロップアニメーションが完了するまで待ってからフェードアウト
@@ -362,27 +456,167 @@ function DraggableMasonryList<T extends MasonryItemType>({
                 }, dropAnimationDuration);
             }
         }
-    }, [data, activeDragId, dropAnimationDuration, keyExtractor, isDropAnimating]);
+    }, [sourceData, activeDragId, dropAnimationDuration, keyExtractor, isDropAnimating]);
 
     // 表示用データ
     const displayData = useMemo(() => {
+        if (incomingDrag) {
+            const result = [...orderedData];
+            result.splice(incomingDrag.index, 0, incomingDrag.item);
+            return result;
+        }
         if (swapMode) return orderedData;
     
         if (!activeDragId || targetInsertIndex < 0) return orderedData;
-        const draggedItem = orderedData.find(item => keyExtractor(item) === activeDragId);
-        if (!draggedItem) return orderedData;
-        const withoutDragged = orderedData.filter(item => keyExtractor(item) !== activeDragId);
-        const result = [...withoutDragged];
-        result.splice(targetInsertIndex, 0, draggedItem);
+        // グループドラッグでは重ねたアイテムをレイアウトから外す
+        const base = dragGroup
+            ? orderedData.filter(item => !dragGroup.followerKeys.has(keyExtractor(item)))
+            : orderedData;
+        const dragIndex = base.findIndex(item => keyExtractor(item) === activeDragId);
+        if (dragIndex < 0) return orderedData;
+        const result = moveItem(base, dragIndex, targetInsertIndex, isEntryLocked, isSectionHeader);
+        // 'anchored'戦略ではドラッグ中のアイテムを指の下のカラムに置く
+        // （変更はそのアイテムだけなので、レイアウトはそのインデックス以降のみ再計算される）
+        if (targetColumn !== null) {
+            const index = result.findIndex(item => keyExtractor(item) === activeDragId);
+            result[index] = { ...result[index], column: targetColumn };
+        }
         return result;
-    }, [orderedData, activeDragId, targetInsertIndex, keyExtractor, swapMode]);
+    }, [orderedData, incomingDrag, activeDragId, dragGroup, targetInsertIndex, targetColumn, keyExtractor, isEntryLocked, swapMode]);
+
+    // コンテナ幅（横方向モードでは高さ）からカラム数を解決（回転や分割画面でサイズが変わると再計算）
+    const numColumns = useMemo(
+        () => resolveColumns(columns, crossSize, columnGap),
+        [columns, crossSize, columnGap]
+    );
+
+    // 高さの解決: getItemHeight > 指定値 > アスペクト比 > 計測値 > 推定値
+    // 幅に依存するため、カラム数・columnGap・コンテナ幅が変わると再計算される
+    // 横方向モードでは行の高さから幅を解決: width > アスペクト比 > 計測値 > 推定値
+    // セクションヘッダーはheaderHeight > 計測値 > 推定値
+    const getDeclaredSize = useCallback((item: Entry, crossLength: number): number | undefined => {
+        if (isSectionHeader(item)) return item.height;
+        return horizontal
+            ? resolveItemWidth(item, crossLength)
+            : resolveItemHeight(item, crossLength, getItemHeight);
+    }, [horizontal, getItemHeight]);
+
+    const getResolvedItemSize = useCallback((item: Entry, crossLength: number): number => {
+        return getDeclaredSize(item, crossLength)
+            ?? measuredSizes[keyExtractor(item)]
+            ?? estimatedItemHeight;
+    }, [getDeclaredSize, measuredSizes, keyExtractor, estimatedItemHeight]);
+
+    // セクションヘッダーは常に全カラム（getItemSpanには渡さない）
+    const getEntrySpan = useMemo(() => {
+        if (!getItemSpan) return undefined;
+        return (item: Entry) => (isSectionHeader(item) ? item.span ?? 1 : getItemSpan(item));
+    }, [getItemSpan]);
+
+    // 計測結果はフレーム単位でまとめて反映（マウント直後に大量のonLayoutが来るため）
+    const handleItemMeasure = useCallback((id: string, size: number) => {
+        const known = pendingMeasurementsRef.current?.[id] ?? measuredSizesRef.current[id];
+        if (known !== undefined && Math.abs(known - size) < 0.5) return;
+
+        if (!pendingMeasurementsRef.current) {
+            pendingMeasurementsRef.current = {};
+            requestAnimationFrame(() => {
+                const pending = pendingMeasurementsRef.current;
+                pendingMeasurementsRef.current = null;
+                if (!pending) return;
+                const nextMeasured = { ...measuredSizesRef.current, ...pending };
+                measuredSizesRef.current = nextMeasured;
+                setMeasuredSizes(nextMeasured);
+            });
+        }
+        pendingMeasurementsRef.current[id] = size;
+    }, []);
+
+    // 表示中のレイアウトの差分計算用キャッシュ（ドラッグ中は挿入位置以降のみ再計算）
+    const layoutCacheRef = useRef(createLayoutCache<Entry>());
+
+    const computeLayout = useCallback((items: Entry[], cache?: LayoutCache<Entry>, visibleEnd?: number): ColumnLayout => {
+        // カスタム戦略にはセクションヘッダーも全カラムにまたがるアイテムとして渡される
+        return calculateLayout(items, layoutStrategy as LayoutStrategy<Entry>, {
+            columns: numColumns,
+            containerWidth: crossSize,
+            rowGap,
+            columnGap,
+            keyExtractor,
+            getItemSpan: getEntrySpan,
+            getItemHeight: getResolvedItemSize,
+        }, cache, visibleEnd);
+    }, [layoutStrategy, numColumns, crossSize, rowGap, columnGap, keyExtractor, getEntrySpan, getResolvedItemSize]);
+
+    // ドラッグ中の挿入先判定用: ドラッグ中のアイテムを除いたレイアウトと、その索引
+    const computeDropTargets = useCallback((withoutDragged: Entry[]): DropTargets<Entry> => {
+        const { positions } = computeLayout(withoutDragged);
+        return {
+            data: withoutDragged,
+            positions,
+            index: buildSpatialIndex(withoutDragged, positions, keyExtractor, numColumns),
+        };
+    }, [computeLayout, keyExtractor, numColumns]);
+
+    const columnWidth = (crossSize - (numColumns - 1) * columnGap) / numColumns;
 
     const layout = useMemo(() => {
-        if (containerWidth === 0) {
+        if (crossSize === 0) {
             return { positions: {}, totalHeight: 0 };
         }
-        return calculateLayout(displayData, numColumns, containerWidth, rowGap, columnGap, keyExtractor);
-    }, [displayData, numColumns, containerWidth, rowGap, columnGap, keyExtractor]);
+        return computeLayout(displayData, layoutCacheRef.current, dragLayoutEnd);
+    }, [displayData, crossSize, computeLayout, dragLayoutEnd]);
+
+    // 論理座標から画面座標への変換（リストヘッダーの分ずらし、横方向モードでは転置、RTLでは左右反転）
+    const toPhysical = useCallback((pos: ItemPosition): ItemPosition => {
+        const shifted = headerLength ? { ...pos, y: pos.y + headerLength } : pos;
+        if (horizontal) return transposePosition(shifted);
+        if (isRTL) return mirrorPosition(shifted, crossSize);
+        return shifted;
+    }, [horizontal, isRTL, crossSize, headerLength]);
+
+    // 画面座標から論理座標への変換（転置と左右反転は自身が逆変換）
+    const toLogical = useCallback((pos: ItemPosition): ItemPosition => {
+        const unshifted = horizontal
+            ? transposePosition(pos)
+            : isRTL ? mirrorPosition(pos, crossSize) : pos;
+        return headerLength ? { ...unshifted, y: unshifted.y - headerLength } : unshifted;
+    }, [horizontal, isRTL, crossSize, headerLength]);
+
+    // アイテムがなければ空表示、フッターはその後ろ
+    const isEmpty = displayData.length === 0;
+    const bodyLength = isEmpty ? (ListEmptyComponent ? measuredEmptyLength : 0) : layout.totalHeight;
+    const contentLength = headerLength + bodyLength + footerLength;
+
+    // ドラッグ中のアイテムサイズ参照用（spanによって幅が異なるため）
+    const layoutRef = useRef<ColumnLayout>(layout);
+    useEffect(() => {
+        layoutRef.current = layout;
+    }, [layout]);
+
+    // renderItemに渡すインデックス（sections使用時はセクション内のインデックス）
+    const renderInfoByKey = useMemo(() => {
+        const map = new Map<string, Omit<RenderItemInfo<T>, 'item'>>();
+        let section: string | undefined;
+        let index = 0;
+        for (const entry of displayData) {
+            if (isSectionHeader(entry)) {
+                section = entry.section.key;
+                index = 0;
+                continue;
+            }
+            map.set(keyExtractor(entry), sections ? { index, section } : { index });
+            index++;
+        }
+        return map;
+    }, [displayData, keyExtractor, sections]);
+
+    // セクション使用時はコールバックのインデックスをセクション内の位置に変換
+    const locate = useCallback((entries: Entry[], flatIndex: number): { index: number; section?: string } => {
+        if (!sections) return { index: flatIndex };
+        const location = locateInSections(entries, flatIndex);
+        return location ?? { index: flatIndex };
+    }, [sections]);
 
     // オートスクロールの閾値を計算
     const [topThreshold, bottomThreshold] = useMemo(() => {
@@ -392,6 +626,12 @@ function DraggableMasonryList<T extends MasonryItemType>({
         return [autoScrollActivationOffset, autoScrollActivationOffset];
     }, [autoScrollActivationOffset]);
 
+    // 仮想化用の索引（レイアウトが変わったときだけ作り直し、スクロールでは二分探索のみ）
+    const visibilityIndex = useMemo(() => {
+        if (!virtualizationEnabled || activeDragId || isDropAnimating) return undefined;
+        return buildSpatialIndex(displayData, layout.positions, keyExtractor, numColumns);
+    }, [virtualizationEnabled, activeDragId, isDropAnimating, displayData, layout.positions, keyExtractor, numColumns]);
+
     // 仮想化: 可視アイテムのみをフィルタリング
     // オートスクロール中（ドラッグ中）またはドロップアニメーション中は仮想化を停止
     const visibleItems = useMemo(() => {
@@ -403,29 +643,46 @@ function DraggableMasonryList<T extends MasonryItemType>({
             return displayData;
         }
         const effectiveOverscan = overscanCount;
-        const overscanPixels = effectiveOverscan * windowHeight;
+        const overscanPixels = effectiveOverscan * viewportLength;
 
         return filterVisibleItems(
             displayData,
             layout.positions,
-            currentScrollY,
-            windowHeight,
+            currentScrollOffset - headerLength,
+            viewportLength,
             overscanPixels,
             keyExtractor,
-            activeDragId
+            activeDragId,
+            visibilityIndex
         );
-    }, [virtualizationEnabled, displayData, layout.positions, currentScrollY, windowHeight, overscanCount, keyExtractor, activeDragId, isDropAnimating]);
+    }, [virtualizationEnabled, displayData, layout.positions, currentScrollOffset, viewportLength, overscanCount, keyExtractor, activeDragId, isDropAnimating, visibilityIndex, headerLength]);
+
+    // グループドラッグ中は重ねたアイテムも描画する
+    const renderedItems = useMemo(
+        () => (dragGroup ? [...visibleItems, ...dragGroup.followers] : visibleItems),
+        [visibleItems, dragGroup]
+    );
 
     // ドロップインジケータの位置を更新（他のアイテムと同じタイミングで）
+    // 他のリストからのドラッグでは仮挿入したアイテムの位置に表示する
+    const indicatorKey = activeDragId ?? incomingDrag?.key ?? null;
+    const indicatorIndex = activeDragId ? targetInsertIndex : incomingDrag?.index ?? -1;
+    // 他のリストやドロップゾーンの上、マージ先がある間は、このリストのインジケーターを隠す
+    const isIndicatorSuppressed = isOverOtherTarget || mergeTargetKey !== null;
     const prevTargetInsertIndex = useRef(-1);
     useEffect(() => {
-        if (!showDropIndicator || !activeDragId || targetInsertIndex < 0) {
-            prevTargetInsertIndex.current = targetInsertIndex;
+        if (isIndicatorSuppressed && isDropIndicatorVisible.current) {
+            dropIndicatorOpacity.value = withTiming(0, { duration: 150 });
+            isDropIndicatorVisible.current = false;
+        }
+        if (!showDropIndicator || !indicatorKey || indicatorIndex < 0 || isIndicatorSuppressed) {
+            prevTargetInsertIndex.current = indicatorIndex;
             return;
         }
 
-        const pos = layout.positions[activeDragId];
-        if (pos) {
+        const logicalPos = layout.positions[indicatorKey];
+        if (logicalPos) {
+            const pos = toPhysical(logicalPos);
             if (!isDropIndicatorVisible.current) {
                 // 最初の表示は即座に
                 dropIndicatorX.value = pos.x;
@@ -434,7 +691,7 @@ function DraggableMasonryList<T extends MasonryItemType>({
                 dropIndicatorHeight.value = pos.height;
                 dropIndicatorOpacity.value = withTiming(1, { duration: 100 });
                 isDropIndicatorVisible.current = true;
-            } else if (prevTargetInsertIndex.current !== targetInsertIndex) {
+            } else if (prevTargetInsertIndex.current !== indicatorIndex) {
                 // 位置が変わった場合のみアニメーション
                 dropIndicatorX.value = withTiming(pos.x, { duration: dropAnimationDuration, easing: Easing.out(Easing.cubic) });
                 dropIndicatorY.value = withTiming(pos.y, { duration: dropAnimationDuration, easing: Easing.out(Easing.cubic) });
@@ -442,13 +699,27 @@ function DraggableMasonryList<T extends MasonryItemType>({
                 dropIndicatorHeight.value = withTiming(pos.height, { duration: dropAnimationDuration });
             }
         }
-        prevTargetInsertIndex.current = targetInsertIndex;
-    }, [layout.positions, activeDragId, targetInsertIndex, showDropIndicator, dropAnimationDuration]);
+        prevTargetInsertIndex.current = indicatorIndex;
+    }, [layout.positions, toPhysical, indicatorKey, indicatorIndex, isIndicatorSuppressed, showDropIndicator, dropAnimationDuration]);
 
-    const layoutWithoutDraggedRef = useRef<ColumnLayout | null>(null);
+    const dropTargetsRef = useRef<DropTargets<Entry> | null>(null);
+    // スワップモードの判定用索引（レイアウトが変わるまで使い回す）
+    const swapIndexRef = useRef<{ positions: Record<string, ItemPosition>; index: SpatialIndex } | null>(null);
+
+    // ドラッグ中にカラム数やコンテナ幅が変わった場合（回転など）はドラッグ中アイテムを除いたレイアウトを再計算
+    // 挿入インデックスはデータ順なのでカラム数が変わっても有効
+    // ドラッグ中かどうかはrefで読む（ドラッグ開始時はhandleDragStartで計算済みなので、ここでは計算し直さない）
+    useEffect(() => {
+        const dragId = activeDragIdRef.current;
+        if (!dragId || crossSize === 0) return;
+        const draggedKeys = dragGroupRef.current?.keys ?? [dragId];
+        const withoutDragged = orderedDataRef.current.filter(item => !draggedKeys.includes(keyExtractor(item)));
+        dropTargetsRef.current = computeDropTargets(withoutDragged);
+    }, [computeDropTargets, crossSize, keyExtractor]);
 
     const handleLayout = (e: LayoutChangeEvent) => {
         setContainerWidth(e.nativeEvent.layout.width);
+        setContainerHeight(e.nativeEvent.layout.height);
     };
 
     // --- Scroll Tracking ---
@@ -456,32 +727,61 @@ function DraggableMasonryList<T extends MasonryItemType>({
     const scrollOffset = useScrollViewOffset(scrollViewRef);
 
     const isDraggingShared = useSharedValue(false);
-    const dragY = useSharedValue(0);
-    const dragStartScrollY = useSharedValue(0);
-    const totalContentHeight = useSharedValue(0);
-    // オートスクロールゾーンに入った時の画面Y座標（-1 = ゾーン外）
+    // ドラッグ位置のスクロール方向の画面座標（縦: absoluteY、横: absoluteX）
+    const dragScreenPos = useSharedValue(0);
+    const dragStartScrollOffset = useSharedValue(0);
+    // ドラッグ中のアイテムの位置（グループドラッグで重ねるアイテムが追従する）
+    const groupDragX = useSharedValue(0);
+    const groupDragY = useSharedValue(0);
+    // ドラッグ中のアイテムのウィンドウ座標（プロバイダー内ではオーバーレイと共有する）
+    const localDragWindowX = useSharedValue(0);
+    const localDragWindowY = useSharedValue(0);
+    const dragWindowX = dragContext?.dragWindowX ?? localDragWindowX;
+    const dragWindowY = dragContext?.dragWindowY ?? localDragWindowY;
+    const totalContentLength = useSharedValue(0);
+    // オートスクロールゾーンに入った時の画面座標（-1 = ゾーン外）
     const autoScrollZoneEntryY = useSharedValue(-1);
 
     // ScrollViewのNativeViewGesture（PanGestureとの競合解消用）
     const scrollGesture = useMemo(() => Gesture.Native().runOnJS(true), []);
 
     useEffect(() => {
-        totalContentHeight.value = layout.totalHeight;
-    }, [layout.totalHeight]);
+        totalContentLength.value = contentLength;
+    }, [contentLength]);
 
-    // 仮想化用: スクロール位置をJS側で追跡
-    const updateScrollY = useCallback((y: number) => {
-        setCurrentScrollY(y);
+    // 仮想化・末尾到達の判定用: スクロール位置をJS側で追跡
+    const tracksScrollOffset = virtualizationEnabled || !!onEndReached;
+    const updateScrollOffset = useCallback((offset: number) => {
+        setCurrentScrollOffset(offset);
     }, []);
 
     const onScrollHandler = useAnimatedScrollHandler({
         onScroll: (event) => {
-            if (virtualizationEnabled) {
-                runOnJS(updateScrollY)(event.contentOffset.y);
+            if (tracksScrollOffset) {
+                runOnJS(updateScrollOffset)(horizontal ? event.contentOffset.x : event.contentOffset.y);
             }
         },
     });
 
+    // 末尾到達の通知（アイテム数が同じ間は1回だけ。末尾から離れたら再び通知できる）
+    // ドラッグ中・ドロップアニメーション中は保留し、終了後に改めて判定する
+    const endReachedItemCountRef = useRef<number | null>(null);
+    const scrollViewportLength = horizontal ? containerWidth : containerHeight;
+    useEffect(() => {
+        if (!onEndReached || activeDragId || isDropAnimating) return;
+        if (crossSize === 0 || scrollViewportLength === 0) return;
+
+        const distanceFromEnd = headerLength + layout.totalHeight - (currentScrollOffset + scrollViewportLength);
+        if (distanceFromEnd >= onEndReachedThreshold * scrollViewportLength) {
+            endReachedItemCountRef.current = null;
+            return;
+        }
+        if (endReachedItemCountRef.current === orderedData.length) return;
+
+        endReachedItemCountRef.current = orderedData.length;
+        onEndReached({ distanceFromEnd });
+    }, [onEndReached, onEndReachedThreshold, activeDragId, isDropAnimating, crossSize, scrollViewportLength, headerLength, layout.totalHeight, currentScrollOffset, orderedData.length]);
+
     // --- Auto-scroll ---
     // 約60fpsを想定したフレーム時間
     const FRAME_TIME = 1 / 60;
@@ -490,6 +790,8 @@ function DraggableMasonryList<T extends MasonryItemType>({
     const lockedMaxSpeed = useSharedValue(-1);
     // 現在のオートスクロール方向（0 = なし、-1 = 上、1 = 下）
     const autoScrollDirection = useSharedValue(0);
+    // ドラッグ中のレイアウトを先まで計算し直すスクロール位置
+    const dragLayoutScrollLimit = useSharedValue(Infinity);
 
     const frameCallback = useFrameCallback(() => {
         'worklet';
@@ -501,7 +803,8 @@ function DraggableMasonryList<T extends MasonryItemType>({
             return;
         }
 
-        const screenY = dragY.value;
+        // 横方向モードでは左端/右端が上端/下端に相当
+        const screenY = dragScreenPos.value;
         const currentScroll = scrollOffset.value;
         let scrollDelta = 0;
 
@@ -540,7 +843,7 @@ function DraggableMasonryList<T extends MasonryItemType>({
             const speed = autoScrollMinSpeed + (effectiveMaxSpeed - autoScrollMinSpeed) * Math.pow(intensity, autoScrollAcceleration);
             scrollDelta = -speed;
         }
-        else if (screenY > windowHeight - bottomThreshold) {
+        else if (screenY > viewportLength - bottomThreshold) {
             // 下端ゾーンに進入
             // ゾーン進入位置を記録（初回のみ）
             if (autoScrollZoneEntryY.value < 0) {
@@ -564,8 +867,8 @@ function DraggableMasonryList<T extends MasonryItemType>({
             // 最初のフレームで最大速度を計算・固定
             if (lockedMaxSpeed.value < 0) {
                 // ScrollViewの最大スクロール位置を動的に計算
-                // totalContentHeightはcontentContainerStyleと同じ高さ
-                const maxScroll = totalContentHeight.value;
+                // totalContentLengthはcontentContainerStyleと同じ長さ
+                const maxScroll = totalContentLength.value;
                 const distanceToEdge = Math.max(0, maxScroll - currentScroll);
                 const dynamicMaxSpeed = distanceToEdge > 0
                     ? (distanceToEdge / autoScrollTargetDuration) * FRAME_TIME
@@ -576,7 +879,7 @@ function DraggableMasonryList<T extends MasonryItemType>({
             const effectiveMaxSpeed = lockedMaxSpeed.value;
 
             // 端に近づくにつれて速くなるロジック（従来通り）
-            const intensity = (screenY - (windowHeight - bottomThreshold)) / bottomThreshold;
+            const intensity = (screenY - (viewportLength - bottomThreshold)) / bottomThreshold;
             const speed = autoScrollMinSpeed + (effectiveMaxSpeed - autoScrollMinSpeed) * Math.pow(intensity, autoScrollAcceleration);
             scrollDelta = speed;
         }
@@ -589,10 +892,19 @@ function DraggableMasonryList<T extends MasonryItemType>({
 
         if (Math.abs(scrollDelta) > 0.5) {
             // ScrollViewの最大スクロール位置（ScrollViewがこれ以上スクロールしないで制限してくれる）
-            const maxScroll = totalContentHeight.value;
+            const maxScroll = totalContentLength.value;
             const nextScroll = Math.min(Math.max(0, currentScroll + scrollDelta), maxScroll);
-            scrollTo(scrollViewRef, 0, nextScroll, false);
+            if (horizontal) {
+                scrollTo(scrollViewRef, nextScroll, 0, false);
+            } else {
+                scrollTo(scrollViewRef, 0, nextScroll, false);
+            }
             // ドラッグ中は仮想化を停止しているので、runOnJSによる更新は不要
+            // （計算済みのレイアウトの終わりが近づいたときだけ、先まで計算し直す）
+            if (nextScroll > dragLayoutScrollLimit.value) {
+                dragLayoutScrollLimit.value = nextScroll + viewportLength;
+                runOnJS(updateDragLayoutEnd)(nextScroll - headerLength + viewportLength * DRAG_LAYOUT_VIEWPORTS);
+            }
         }
     }, false);
 
@@ -604,26 +916,106 @@ function DraggableMasonryList<T extends MasonryItemType>({
         }
     }, [activeDragId, frameCallback, sortEnabled]);
 
+    // canMoveToで移動先を判定（nullは最初のセクションヘッダーより前で、移動できない）
+    const isMoveAllowed = useCallback((item: T, from: { index: number; section?: string }, target: MoveTarget<Entry> | null): boolean => {
+        if (!canMoveTo) return true;
+        if (!target) return false;
+        const { boundary } = target;
+        return canMoveTo({
+            item,
+            fromIndex: from.index,
+            toIndex: target.index,
+            ...(sections && {
+                fromSection: from.section,
+                toSection: boundary && isSectionHeader(boundary) ? boundary.section.key : undefined,
+            }),
+            targetNeighbors: { before: target.before as T | undefined, after: target.after as T | undefined },
+        });
+    }, [canMoveTo, sections]);
+
     // --- Drag Handlers ---
     const handleDragStart = useCallback((id: string) => {
         if (!sortEnabled) return;
 
-        setActiveDragId(id);
+        updateActiveDragId(id);
         isDraggingShared.value = true;
-
-        const withoutDragged = orderedDataRef.current.filter(item => keyExtractor(item) !== id);
-        if (containerWidth > 0) {
-            layoutWithoutDraggedRef.current = calculateLayout(
-                withoutDragged, numColumns, containerWidth, rowGap, columnGap, keyExtractor
-            );
+        // レイアウトは表示範囲の先までだけ計算する（オートスクロールで近づいたら広げる）
+        const scroll = scrollOffset.value;
+        dragLayoutScrollLimit.value = scroll + viewportLength;
+        updateDragLayoutEnd(scroll - headerLength + viewportLength * DRAG_LAYOUT_VIEWPORTS);
+
+        // 選択中のアイテムをドラッグした場合は、選択中の全アイテムをまとめて移動（ロックされたものを除く）
+        const selected = !swapMode && selectedKeys?.includes(id) ? new Set(selectedKeys) : null;
+        const groupEntries = selected
+            ? orderedDataRef.current.filter(item =>
+                isEntryDraggable(item) && selected.has(keyExtractor(item)))
+            : [];
+        let group: DragGroup<Entry> | null = null;
+        if (groupEntries.length > 1) {
+            const followers = groupEntries.filter(item => keyExtractor(item) !== id);
+            const positions: Record<string, ItemPosition> = {};
+            followers.forEach(item => {
+                const pos = layoutRef.current.positions[keyExtractor(item)];
+                if (pos) positions[keyExtractor(item)] = pos;
+            });
+            group = {
+                keys: groupEntries.map(item => keyExtractor(item)),
+                followers,
+                followerKeys: new Set(followers.map(item => keyExtractor(item))),
+                positions,
+            };
+        }
+        dragGroupRef.current = group;
+        setDragGroup(group);
+        const draggedKeys = group?.keys ?? [id];
+        const draggedKeySet = new Set(draggedKeys);
+
+        const withoutDragged = orderedDataRef.current.filter(item => !draggedKeySet.has(keyExtractor(item)));
+        if (crossSize > 0) {
+            dropTargetsRef.current = computeDropTargets(withoutDragged);
         }
 
         const currentIndex = orderedDataRef.current.findIndex(item => keyExtractor(item) === id);
         dragStartIndexRef.current = currentIndex;
+        dragStartDataRef.current = orderedDataRef.current;
+        const startLocation = locate(orderedDataRef.current, currentIndex);
+        dragStartLocationRef.current = startLocation;
         const indexInFiltered = orderedDataRef.current
             .slice(0, currentIndex)
-            .filter(item => keyExtractor(item) !== id).length;
-        setTargetInsertIndex(indexInFiltered);
+            .filter(item => !draggedKeySet.has(keyExtractor(item))).length;
+        dragStartInsertIndexRef.current = indexInFiltered;
+        updateTargetInsertIndex(indexInFiltered);
+
+        // 挿入モードでは指の下の位置を必要になったときに判定する（元の位置は常に可）
+        const leader = orderedDataRef.current[currentIndex] as T;
+        isInsertAllowedRef.current = canMoveTo && !swapMode
+            ? createInsertIndexCheck(withoutDragged, indexInFiltered,
+                target => isMoveAllowed(leader, startLocation, target), isSectionHeader)
+            : null;
+
+        // リストの外へ運べるように、共通のオーバーレイに描画する（グループドラッグは重ねたままリスト内で描画）
+        const draggedPos = layoutRef.current.positions[id];
+        if (dragContext && draggedPos) {
+            const draggedItem = orderedDataRef.current[currentIndex] as T;
+            const { width, height } = toPhysical(draggedPos);
+            dragContext.beginDrag({
+                listId,
+                key: id,
+                keys: draggedKeys,
+                item: draggedItem,
+                fromIndex: startLocation.index,
+                ...(startLocation.section !== undefined && { fromSection: startLocation.section }),
+                content: group ? null : renderItem({ item: draggedItem, ...renderInfoByKey.get(id)! }),
+                itemExiting,
+                width,
+                height,
+                scale: activeItemScale,
+                opacity: activeItemOpacity,
+                shadowOpacity: activeItemShadowOpacity,
+                activationAnimationDuration,
+            });
+            setIsProviderDrag(true);
+        }
 
         // ドロップインジケーターを即座に表示（ドラッグ中アイテムの元の位置）
         if (showDropIndicator) {
@@ -632,9 +1024,10 @@ function DraggableMasonryList<T extends MasonryItemType>({
                 // 元の位置でのレイアウトを計算
                 const tempData = [...withoutDragged];
                 tempData.splice(indexInFiltered, 0, draggedItem);
-                const tempLayout = calculateLayout(tempData, numColumns, containerWidth, rowGap, columnGap, keyExtractor);
-                const pos = tempLayout.positions[id];
-                if (pos) {
+                const tempLayout = computeLayout(tempData);
+                const logicalPos = tempLayout.positions[id];
+                if (logicalPos) {
+                    const pos = toPhysical(logicalPos);
                     dropIndicatorX.value = pos.x;
                     dropIndicatorY.value = pos.y;
                     dropIndicatorWidth.value = pos.width;
@@ -647,90 +1040,329 @@ function DraggableMasonryList<T extends MasonryItemType>({
 
         // コールバック
         if (onDragStart) {
-            onDragStart({ key: id, fromIndex: currentIndex });
-        }
-    }, [keyExtractor, numColumns, containerWidth, rowGap, columnGap, sortEnabled, onDragStart, showDropIndicator]);
-
-    const handleDragEnd = useCallback((id: string) => {
-        if (!sortEnabled) return;
-    
-        const fromIndex = dragStartIndexRef.current;
-    
-        if (!swapMode && activeDragId && targetInsertIndex >= 0) {
-            const draggedItem = orderedDataRef.current.find(item => keyExtractor(item) === activeDragId);
-            if (draggedItem) {
-                const withoutDragged = orderedDataRef.current.filter(item => keyExtractor(item) !== activeDragId);
-                const newData = [...withoutDragged];
-                newData.splice(targetInsertIndex, 0, draggedItem);
-    
-                orderedDataRef.current = newData;
-                setOrderedData(newData);
-            }
+            onDragStart({
+                key: id,
+                keys: draggedKeys,
+                fromIndex: startLocation.index,
+                ...(startLocation.section !== undefined && { fromSection: startLocation.section }),
+            });
         }
-    
-        const toIndex = orderedDataRef.current.findIndex(item => keyExtractor(item) === id);
+    }, [keyExtractor, crossSize, computeLayout, computeDropTargets, toPhysical, locate, isEntryDraggable, isMoveAllowed, canMoveTo, selectedKeys, sortEnabled, swapMode, onDragStart, showDropIndicator, dragContext, listId, renderItem, renderInfoByKey, activeItemScale, activeItemOpacity, activeItemShadowOpacity, activationAnimationDuration, itemExiting, viewportLength, headerLength, updateActiveDragId, updateTargetInsertIndex, updateDragLayoutEnd]);
+
+    // 並び替え後のコールバック（ドラッグとrefのメソッドで共通）
+    // 移動先の位置はlocatedで求める（並び替えずに終わったドロップではドラッグ前のデータ）
+    const notifyReorder = useCallback((
+        id: string,
+        keys: string[],
+        from: { index: number; section?: string },
+        source: ReorderSource,
+        result: DragEndResult = 'reorder',
+        located: Entry[] = orderedDataRef.current,
+    ) => {
+        const flatToIndex = located.findIndex(item => keyExtractor(item) === id);
+        const finalPositions = computeLayout(located, layoutCacheRef.current).positions;
+        const column = finalPositions[id]?.column ?? 0;
+        const indexInColumn = getIndexInColumn(located, finalPositions, keyExtractor, id, isSectionHeader);
+        const to = locate(located, flatToIndex);
+        const sectionParams = sections
+            ? { fromSection: from.section, toSection: to.section }
+            : {};
     
         if (onDragEnd) {
             onDragEnd({
                 key: id,
-                fromIndex,
-                toIndex,
-                data: orderedDataRef.current,
+                keys,
+                fromIndex: from.index,
+                toIndex: to.index,
+                data: stripSectionHeaders(orderedDataRef.current),
+                ...sectionParams,
+                ...(sections && { sections: unflattenSections(orderedDataRef.current) }),
+                column,
+                indexInColumn,
+                source,
+                result,
             });
         }
     
-        if (onOrderChange && fromIndex !== toIndex) {
+        if (onOrderChange && result === 'reorder' && (from.index !== to.index || from.section !== to.section)) {
             onOrderChange({
                 key: id,
-                fromIndex,
-                toIndex,
+                fromIndex: from.index,
+                toIndex: to.index,
+                ...sectionParams,
+                source,
             });
         }
-    
-        setActiveDragId(null);
-        isDraggingShared.value = false;
-        setTargetInsertIndex(-1);
-        setCurrentScrollY(scrollOffset.value);
+    }, [computeLayout, keyExtractor, locate, sections, onDragEnd, onOrderChange]);
+
+    // canUndo/canRedoが変わったら通知
+    const updateHistory = useCallback((past: HistoryEntry<Entry>[], future: HistoryEntry<Entry>[]) => {
+        historyRef.current = { past, future };
+        const next = { canUndo: past.length > 0, canRedo: future.length > 0 };
+        const prev = historyStateRef.current;
+        if (next.canUndo === prev.canUndo && next.canRedo === prev.canRedo) return;
+        historyStateRef.current = next;
+        if (onHistoryChange) {
+            onHistoryChange(next);
+        }
+    }, [onHistoryChange]);
+
+    // 確定した並び替えを記録（並び順も'anchored'戦略のカラムも変わっていなければ記録しない）
+    const recordHistory = useCallback((key: string, keys: string[], before: Entry[], after: Entry[]) => {
+        if (historyLimit <= 0) return;
+        const changed = before.length !== after.length || before.some((item, index) =>
+            keyExtractor(item) !== keyExtractor(after[index]) || (isAnchored && item.column !== after[index].column));
+        if (!changed) return;
+        updateHistory([...historyRef.current.past, { key, keys, before, after }].slice(-historyLimit), []);
+    }, [historyLimit, keyExtractor, isAnchored, updateHistory]);
+
+    // ドロップ後のアニメーション中は外部dataの同期と仮想化を止める
+    const startDropAnimation = useCallback(() => {
+        setCurrentScrollOffset(scrollOffset.value);
         setIsDropAnimating(true);
         setTimeout(() => {
             setIsDropAnimating(false);
         }, dropAnimationDuration + 50);
-        layoutWithoutDraggedRef.current = null;
+    }, [scrollOffset, dropAnimationDuration]);
+
+    // 2つのアイテムを入れ替える（'anchored'戦略ではカラムも入れ替える）
+    const swapEntries = useCallback((entries: Entry[], indexA: number, indexB: number, positions: Record<string, ItemPosition>): Entry[] => {
+        const newData = swapItems(entries, indexA, indexB, isEntryLocked);
+        if (isAnchored && newData !== entries) {
+            const columnA = positions[keyExtractor(entries[indexA])]?.column;
+            const columnB = positions[keyExtractor(entries[indexB])]?.column;
+            newData[indexA] = { ...newData[indexA], column: columnA };
+            newData[indexB] = { ...newData[indexB], column: columnB };
+        }
+        return newData;
+    }, [isAnchored, isEntryLocked, keyExtractor]);
+
+    // マージ先の候補を更新（候補が変わったら待ち直し、mergeDwellTime経ったらマージ先にする）
+    const updateMergeCandidate = useCallback((key: string | null) => {
+        if ((mergeCandidateRef.current?.key ?? null) === key) return;
+        if (mergeCandidateRef.current) {
+            clearTimeout(mergeCandidateRef.current.timer);
+            mergeCandidateRef.current = null;
+        }
+        mergeTargetKeyRef.current = null;
+        setMergeTargetKey(null);
+        if (key) {
+            const timer = setTimeout(() => {
+                mergeTargetKeyRef.current = key;
+                setMergeTargetKey(key);
+            }, mergeDwellTime);
+            mergeCandidateRef.current = { key, timer };
+        }
+    }, [mergeDwellTime]);
+
+    const handleDragEnd = useCallback((id: string) => {
+        if (!sortEnabled) return;
+    
+        const fromIndex = dragStartIndexRef.current;
+    
+        const group = dragGroupRef.current;
+        const draggedKeys = group?.keys ?? [id];
+        const from = dragStartLocationRef.current ?? { index: fromIndex };
+        const startData = dragStartDataRef.current ?? orderedDataRef.current;
+
+        // onDragStartと対になるように、並び替えずに終わったドロップでもonDragEndを呼ぶ
+        // （onDropOutside・onMergeItemsでのdataの更新が後になるように先に呼ぶ）
+        const mergeKey = mergeTargetKeyRef.current;
+        const dropResult = isProviderDrag && dragContext ? dragContext.endDrag() : null;
+        if (dropResult?.type === 'transfer') {
+            // 他のリストにドロップした場合は、このリストから取り除く（dataはonItemTransferで更新してもらう）
+            // グループドラッグは他のリストに移せないのでdraggedKeysは[id]だけだが、ゾーンへのドロップと揃えておく
+            const newData = orderedDataRef.current.filter(item => !draggedKeys.includes(keyExtractor(item)));
+            orderedDataRef.current = newData;
+            setOrderedData(newData);
+            notifyReorder(id, draggedKeys, from, 'drag', 'transfer', startData);
+        } else if (dropResult?.type === 'zone') {
+            // ドロップゾーンに落とした場合は並び替えずに取り除く（itemExitingで消える）
+            const droppedItem = orderedDataRef.current.find(item => keyExtractor(item) === id) as T;
+            const newData = orderedDataRef.current.filter(item => !draggedKeys.includes(keyExtractor(item)));
+            orderedDataRef.current = newData;
+            setOrderedData(newData);
+            notifyReorder(id, draggedKeys, from, 'drag', 'dropZone', startData);
+            if (onDropOutside) {
+                onDropOutside({
+                    key: id,
+                    keys: draggedKeys,
+                    item: droppedItem,
+                    zoneId: dropResult.zoneId,
+                    ...(listId !== undefined && { listId }),
+                });
+            }
+        } else if (mergeKey) {
+            // アイテムに重ねてドロップした場合は並び替えずにマージを通知（スワップモードの入れ替えも戻す）
+            if (swapMode && dragStartDataRef.current) {
+                orderedDataRef.current = dragStartDataRef.current;
+                setOrderedData(dragStartDataRef.current);
+            }
+            notifyReorder(id, draggedKeys, from, 'drag', 'merge');
+            if (onMergeItems) {
+                onMergeItems({ sourceKey: id, targetKey: mergeKey });
+            }
+        } else {
+            const dropIndex = targetInsertIndexRef.current;
+            const dragId = activeDragIdRef.current;
+            if (!swapMode && dragId && dropIndex >= 0) {
+                let newData = orderedDataRef.current;
+                if (group) {
+                    // 選択中のアイテムをデータ順のまま挿入位置から連続して並べる
+                    const indices = group.keys.map(key => orderedDataRef.current.findIndex(item => keyExtractor(item) === key));
+                    newData = moveItems(orderedDataRef.current, indices, dropIndex, isEntryLocked, isSectionHeader);
+                } else {
+                    const dragIndex = orderedDataRef.current.findIndex(item => keyExtractor(item) === dragId);
+                    if (dragIndex >= 0) {
+                        newData = moveItem(orderedDataRef.current, dragIndex, dropIndex, isEntryLocked, isSectionHeader);
+                    }
+                }
+    
+                orderedDataRef.current = newData;
+                setOrderedData(newData);
+            }
+
+            // 'anchored'戦略ではドロップしたカラムをアイテムに反映
+            const droppedColumn = targetColumnRef.current;
+            if (isAnchored && droppedColumn !== null) {
+                const newData = orderedDataRef.current.map(item =>
+                    draggedKeys.includes(keyExtractor(item)) ? { ...item, column: droppedColumn } : item
+                );
+                orderedDataRef.current = newData;
+                setOrderedData(newData);
+            }
+
+            if (dragStartDataRef.current) {
+                recordHistory(id, draggedKeys, dragStartDataRef.current, orderedDataRef.current);
+            }
+            notifyReorder(id, draggedKeys, from, 'drag');
+        }
+
+        updateActiveDragId(null);
+        dragGroupRef.current = null;
+        setDragGroup(null);
+        setIsProviderDrag(false);
+        setIsOverOtherTarget(false);
+        setIsDropInvalid(false);
+        updateMergeCandidate(null);
+        isDraggingShared.value = false;
+        updateTargetInsertIndex(-1);
+        updateTargetColumn(null);
+        dragLayoutScrollLimit.value = Infinity;
+        updateDragLayoutEnd(undefined);
+        startDropAnimation();
+        dropTargetsRef.current = null;
+        swapIndexRef.current = null;
         dragStartIndexRef.current = -1;
-    }, [activeDragId, targetInsertIndex, keyExtractor, sortEnabled, swapMode, onDragEnd, onOrderChange, scrollOffset, dropAnimationDuration]);
+        dragStartInsertIndexRef.current = -1;
+        dragStartDataRef.current = null;
+        dragStartLocationRef.current = null;
+        isInsertAllowedRef.current = null;
+    }, [isAnchored, isProviderDrag, dragContext, listId, keyExtractor, isEntryLocked, sortEnabled, swapMode, notifyReorder, recordHistory, startDropAnimation, updateActiveDragId, updateTargetInsertIndex, updateTargetColumn, updateDragLayoutEnd, updateMergeCandidate, onDropOutside, onMergeItems]);
 
-    const handleDragChange = useCallback((id: string, x: number, y: number, screenY: number) => {
+    const handleDragChange = useCallback((id: string, x: number, y: number, screenPos: number) => {
         if (!sortEnabled) return;
     
         const draggedItem = orderedDataRef.current.find(item => keyExtractor(item) === id);
         if (!draggedItem) return;
-    
-        const columnWidth = (containerWidth - (numColumns - 1) * columnGap) / numColumns;
+
+        // 他のリストやドロップゾーンの上では、このリストのアイテムは元の位置に戻す
+        if (isProviderDrag && dragContext) {
+            const overOtherTarget = dragContext.updateDrag();
+            if (overOtherTarget !== isOverOtherTarget) {
+                setIsOverOtherTarget(overOtherTarget);
+            }
+            if (overOtherTarget) {
+                updateMergeCandidate(null);
+                if (!swapMode) {
+                    updateTargetInsertIndex(dragStartInsertIndexRef.current);
+                }
+                updateTargetColumn(null);
+                if (isDropInvalid) {
+                    setIsDropInvalid(false);
+                }
+                return;
+            }
+        }
+
+        // 判定はレイアウトと同じ論理座標で行う（横方向モードでは転置、RTLでは左右反転）
+        const draggedPos = layoutRef.current.positions[id];
+        const dragWidth = draggedPos ? draggedPos.width : columnWidth;
+        const dragHeight = draggedPos ? draggedPos.height : getResolvedItemSize(draggedItem, dragWidth);
+        const physicalSize = horizontal
+            ? { width: dragHeight, height: dragWidth }
+            : { width: dragWidth, height: dragHeight };
+        const { x: logicalX, y: logicalY } = toLogical({ ...physicalSize, x, y, column: 0, span: 1 });
+
+        // マージが有効なら、アイテムの中央に重ねている間は並び替えない（周辺なら挿入・スワップ）
+        // 判定は表示中のレイアウトで行う
+        if (onMergeItems && !dragGroupRef.current) {
+            const mergeIndex = findMergeTarget(
+                logicalX + dragWidth / 2, logicalY + dragHeight / 2,
+                orderedDataRef.current,
+                layoutRef.current.positions,
+                keyExtractor,
+                id,
+                item => !isSectionHeader(item) && !isEntryLocked(item),
+            );
+            const mergeKey = mergeIndex >= 0 ? keyExtractor(orderedDataRef.current[mergeIndex]) : null;
+            updateMergeCandidate(mergeKey);
+            if (mergeKey) return;
+        }
     
         if (swapMode) {
-            const dragCenterX = x + columnWidth / 2;
-            const dragCenterY = y + draggedItem.height / 2;
+            const dragCenterX = logicalX + dragWidth / 2;
+            const dragCenterY = logicalY + dragHeight / 2;
     
-            const currentLayout = calculateLayout(
-                orderedDataRef.current, numColumns, containerWidth, rowGap, columnGap, keyExtractor
-            );
+            // スワップモードでは表示中のデータと同じなので、キャッシュがそのまま使われる
+            const currentLayout = computeLayout(orderedDataRef.current, layoutCacheRef.current, dragLayoutEndRef.current);
+            if (swapIndexRef.current?.positions !== currentLayout.positions) {
+                swapIndexRef.current = {
+                    positions: currentLayout.positions,
+                    index: buildSpatialIndex(orderedDataRef.current, currentLayout.positions, keyExtractor, numColumns),
+                };
+            }
     
+            const dragIndex = orderedDataRef.current.findIndex(item => keyExtractor(item) === id);
+            const from = dragStartLocationRef.current ?? { index: dragStartIndexRef.current };
+            const isSwappable = (item: Entry) => !isSectionHeader(item) && !isEntryLocked(item);
+            // 入れ替えた後の位置にcanMoveToで移動できるか
+            const canSwapTo = (item: Entry) => {
+                if (!canMoveTo) return true;
+                const targetIndex = orderedDataRef.current.indexOf(item);
+                const target = getSwapTarget(orderedDataRef.current, dragIndex, targetIndex, isEntryLocked, isSectionHeader);
+                return isMoveAllowed(draggedItem as T, from, target);
+            };
             const swapTargetIndex = findSwapTarget(
                 dragCenterX, dragCenterY,
                 orderedDataRef.current,
                 currentLayout.positions,
                 keyExtractor,
                 id,
+                item => isSwappable(item) && canSwapTo(item),
+                swapIndexRef.current.index,
             );
+
+            // 禁止されたアイテムの上ではインジケーターを無効の表示にする
+            const invalid = swapTargetIndex < 0 && !!canMoveTo && findSwapTarget(
+                dragCenterX, dragCenterY,
+                orderedDataRef.current,
+                currentLayout.positions,
+                keyExtractor,
+                id,
+                isSwappable,
+                swapIndexRef.current.index,
+            ) >= 0;
+            if (invalid !== isDropInvalid) {
+                setIsDropInvalid(invalid);
+            }
     
             if (swapTargetIndex >= 0) {
-                const dragIndex = orderedDataRef.current.findIndex(item => keyExtractor(item) === id);
                 if (dragIndex !== swapTargetIndex) {
-                    const newData = [...orderedDataRef.current];
-                    [newData[dragIndex], newData[swapTargetIndex]] = [newData[swapTargetIndex], newData[dragIndex]];
+                    const newData = swapEntries(orderedDataRef.current, dragIndex, swapTargetIndex, currentLayout.positions);
                     orderedDataRef.current = newData;
                     setOrderedData(newData);
-                    setTargetInsertIndex(swapTargetIndex);
+                    updateTargetInsertIndex(swapTargetIndex);
                 }
             }
     
@@ -739,42 +1371,478 @@ function DraggableMasonryList<T extends MasonryItemType>({
             }
         } else {
             // Existing insert-based logic
-            if (!layoutWithoutDraggedRef.current) return;
+            const dropTargets = dropTargetsRef.current;
+            if (!dropTargets) return;
     
-            const withoutDragged = orderedDataRef.current.filter(item => keyExtractor(item) !== id);
+            const withoutDragged = dropTargets.data;
+            // 禁止された位置のアイテムは挿入先の候補から外し、指の近くで許可された位置を探す
+            const isAllowed = isInsertAllowedRef.current;
+            const isInsertAllowed = (index: number) => !isAllowed || isAllowed(index);
     
-            const newTargetIndex = findInsertIndex(
-                x, y, columnWidth, draggedItem.height,
+            const foundIndex = findInsertIndex(
+                logicalX, logicalY, dragWidth, dragHeight,
                 withoutDragged,
-                layoutWithoutDraggedRef.current.positions,
+                dropTargets.positions,
                 keyExtractor,
                 id,
-                targetInsertIndex,
+                targetInsertIndexRef.current,
                 numColumns,
-                columnGap
+                columnWidth,
+                columnGap,
+                item => !isEntryLocked(item) && isInsertAllowed(dropTargets.index.indexByKey.get(keyExtractor(item)) ?? -1),
+                dropTargets.index,
             );
+            // 最初のセクションヘッダーより前には挿入しない
+            const minIndex = withoutDragged.length > 0 && isSectionHeader(withoutDragged[0]) ? 1 : 0;
+            let newTargetIndex = Math.max(minIndex, foundIndex);
+
+            // canMoveToで禁止された位置なら元の位置に戻し、インジケーターを無効の表示にする
+            const invalid = !isInsertAllowed(newTargetIndex);
+            if (invalid) {
+                newTargetIndex = dragStartInsertIndexRef.current;
+            }
+            if (invalid !== isDropInvalid) {
+                setIsDropInvalid(invalid);
+            }
     
-            if (newTargetIndex !== targetInsertIndex) {
-                setTargetInsertIndex(newTargetIndex);
+            updateTargetInsertIndex(newTargetIndex);
+
+            if (isAnchored) {
+                const { startColumn } = findDragColumns(logicalX + dragWidth / 2, dragWidth, numColumns, columnWidth, columnGap);
+                updateTargetColumn(invalid ? null : startColumn);
             }
     
             if (onDragChange) {
                 onDragChange({ key: id, x, y, index: newTargetIndex });
             }
         }
-    }, [containerWidth, numColumns, rowGap, columnGap, keyExtractor, targetInsertIndex, sortEnabled, swapMode, onDragChange]);
+    }, [horizontal, toLogical, isAnchored, columnWidth, numColumns, columnGap, computeLayout, swapEntries, getResolvedItemSize, keyExtractor, isEntryLocked, isProviderDrag, isOverOtherTarget, isDropInvalid, isMoveAllowed, canMoveTo, dragContext, sortEnabled, swapMode, updateTargetInsertIndex, updateTargetColumn, updateMergeCandidate, onMergeItems, onDragChange]);
+
+    // --- Imperative API ---
+    const scrollToOffset = useCallback((offset: number, options?: ScrollToOffsetOptions) => {
+        const animated = options?.animated ?? true;
+        const maxOffset = Math.max(0, contentLength - scrollViewportLength);
+        const next = Math.max(0, Math.min(offset, maxOffset));
+        scrollViewRef.current?.scrollTo(horizontal ? { x: next, animated } : { y: next, animated });
+        // アニメーションなしの場合はスクロールイベントを待たずに仮想化の描画範囲を更新
+        if (!animated) {
+            setCurrentScrollOffset(next);
+        }
+    }, [horizontal, contentLength, scrollViewportLength]);
+
+    const scrollToItem = useCallback((key: string, options?: ScrollToItemOptions) => {
+        const logicalPos = layout.positions[key];
+        if (!logicalPos) return;
+        // 論理座標のyはスクロール方向の位置（RTLや横方向モードでも同じ）
+        const viewPosition = options?.viewPosition ?? 0;
+        const start = headerLength + logicalPos.y;
+        scrollToOffset(start - viewPosition * (scrollViewportLength - logicalPos.height), options);
+    }, [layout.positions, headerLength, scrollViewportLength, scrollToOffset]);
+
+    const scrollToIndex = useCallback((index: number, options?: ScrollToIndexOptions) => {
+        const entries = orderedDataRef.current;
+        const section = options?.section;
+        // sections使用時はセクション内のインデックス、それ以外はヘッダーを除いたインデックス
+        let start = 0;
+        if (section !== undefined) {
+            start = entries.findIndex(entry => isSectionHeader(entry) && entry.section.key === section) + 1;
+            if (start === 0) return;
+        }
+        let count = 0;
+        for (let i = start; i < entries.length; i++) {
+            const entry = entries[i];
+            if (isSectionHeader(entry)) {
+                if (section !== undefined) return;
+                continue;
+            }
+            if (count === index) {
+                scrollToItem(keyExtractor(entry), options);
+                return;
+            }
+            count++;
+        }
+    }, [keyExtractor, scrollToItem]);
+
+    // refのメソッドによる並び替え・削除（ドロップと同じくMasonryItemのwithTimingで移動する）
+    const applyApiChange = useCallback((newData: Entry[]) => {
+        orderedDataRef.current = newData;
+        setOrderedData(newData);
+        startDropAnimation();
+    }, [startDropAnimation]);
+
+    const moveItemTo = useCallback((key: string, toIndex: number, options?: MoveItemOptions) => {
+        if (activeDragId) return;
+        const entries = orderedDataRef.current;
+        const fromIndex = entries.findIndex(entry => keyExtractor(entry) === key);
+        if (fromIndex < 0 || isSectionHeader(entries[fromIndex])) return;
+
+        const from = locate(entries, fromIndex);
+        const section = options?.section ?? from.section;
+        // 挿入位置はドラッグと同じく、移動するアイテムを除いた配列でのインデックス
+        let flatToIndex = Math.max(0, toIndex);
+        if (section !== undefined) {
+            const withoutMoving = entries.filter((_, index) => index !== fromIndex);
+            const headerIndex = withoutMoving.findIndex(entry => isSectionHeader(entry) && entry.section.key === section);
+            if (headerIndex < 0) return;
+            let sectionEnd = headerIndex + 1;
+            while (sectionEnd < withoutMoving.length && !isSectionHeader(withoutMoving[sectionEnd])) {
+                sectionEnd++;
+            }
+            flatToIndex = Math.min(headerIndex + 1 + flatToIndex, sectionEnd);
+        }
+
+        const newData = moveItem(entries, fromIndex, flatToIndex, isEntryLocked, isSectionHeader);
+        if (newData === entries) return;
+        applyApiChange(newData);
+        recordHistory(key, [key], entries, newData);
+        notifyReorder(key, [key], from, 'api');
+    }, [activeDragId, keyExtractor, locate, isEntryLocked, applyApiChange, recordHistory, notifyReorder]);
+
+    const swapItemsByKey = useCallback((keyA: string, keyB: string) => {
+        if (activeDragId) return;
+        const entries = orderedDataRef.current;
+        const indexA = entries.findIndex(entry => keyExtractor(entry) === keyA);
+        const indexB = entries.findIndex(entry => keyExtractor(entry) === keyB);
+        if (indexA < 0 || indexB < 0 || isSectionHeader(entries[indexA]) || isSectionHeader(entries[indexB])) return;
+
+        const from = locate(entries, indexA);
+        const { positions } = computeLayout(entries, layoutCacheRef.current);
+        const newData = swapEntries(entries, indexA, indexB, positions);
+        if (newData === entries) return;
+        applyApiChange(newData);
+        recordHistory(keyA, [keyA], entries, newData);
+        notifyReorder(keyA, [keyA], from, 'api');
+    }, [activeDragId, keyExtractor, locate, computeLayout, swapEntries, applyApiChange, recordHistory, notifyReorder]);
+
+    // 記録した並び替えを再生する（dataが外部で並び替えられたか、記録したアイテムが消えていれば、履歴を破棄して何もしない）
+    const replayHistory = useCallback((entry: HistoryEntry<Entry>, current: Entry[], target: Entry[]): boolean => {
+        const entries = orderedDataRef.current;
+        const replayed = replayOrder(entries, current.map(keyExtractor), target.map(keyExtractor), keyExtractor);
+        if (!replayed) {
+            updateHistory([], []);
+            return false;
+        }
+        // 'anchored'戦略ではカラムも戻す（記録後に追加されたアイテムはそのまま）
+        let newData = replayed;
+        if (isAnchored) {
+            const targetColumns = new Map(target.map(item => [keyExtractor(item), item.column]));
+            newData = replayed.map(item => {
+                const key = keyExtractor(item);
+                if (!targetColumns.has(key)) return item;
+                const column = targetColumns.get(key);
+                return item.column === column ? item : { ...item, column };
+            });
+        }
+        const from = locate(entries, entries.findIndex(item => keyExtractor(item) === entry.key));
+        applyApiChange(newData);
+        notifyReorder(entry.key, entry.keys, from, 'history');
+        return true;
+    }, [keyExtractor, isAnchored, locate, applyApiChange, notifyReorder, updateHistory]);
+
+    const undo = useCallback(() => {
+        if (activeDragId) return;
+        const { past, future } = historyRef.current;
+        const entry = past[past.length - 1];
+        if (!entry || !replayHistory(entry, entry.after, entry.before)) return;
+        updateHistory(past.slice(0, -1), [...future, entry]);
+    }, [activeDragId, replayHistory, updateHistory]);
+
+    const redo = useCallback(() => {
+        if (activeDragId) return;
+        const { past, future } = historyRef.current;
+        const entry = future[future.length - 1];
+        if (!entry || !replayHistory(entry, entry.before, entry.after)) return;
+        updateHistory([...past, entry], future.slice(0, -1));
+    }, [activeDragId, replayHistory, updateHistory]);
+
+    const removeItemByKey = useCallback((key: string) => {
+        if (activeDragId) return;
+        const entries = orderedDataRef.current;
+        const index = entries.findIndex(entry => keyExtractor(entry) === key);
+        // 固定されたアイテムは並び替えと同じく動かさない（取り除かない）
+        if (index < 0 || isSectionHeader(entries[index]) || isEntryLocked(entries[index])) return;
+
+        const location = locate(entries, index);
+        const newData = entries.filter((_, i) => i !== index);
+        applyApiChange(newData);
+        // 取り除いたアイテムを含む記録は再生できないので、履歴を破棄する
+        updateHistory([], []);
+        if (onItemRemove) {
+            onItemRemove({
+                key,
+                index: location.index,
+                ...(location.section !== undefined && { section: location.section }),
+                data: stripSectionHeaders(newData),
+                ...(sections && { sections: unflattenSections(newData) }),
+                source: 'api',
+            });
+        }
+    }, [activeDragId, keyExtractor, isEntryLocked, locate, sections, applyApiChange, updateHistory, onItemRemove]);
+
+    // --- Accessibility ---
+    const strings = useMemo(
+        () => ({ ...DEFAULT_ACCESSIBILITY_STRINGS, ...accessibilityStrings }),
+        [accessibilityStrings]
+    );
+
+    // 並び替え可能なセル共通の操作一覧（1カラムではカラム移動を除く）
+    const accessibilityActions = useMemo<AccessibilityActionInfo[]>(
+        () => REORDER_ACTIONS
+            .filter(name => numColumns > 1 || !COLUMN_ACTIONS.includes(name))
+            .map(name => ({ name, label: strings[name] })),
+        [numColumns, strings]
+    );
+
+    // 操作に応じた挿入位置（移動するアイテムを除いた配列でのインデックス）を求めて並び替える
+    const performAccessibilityAction = (id: string, action: ReorderAction) => {
+        if (activeDragId) return;
+        const entries = orderedDataRef.current;
+        const fromIndex = entries.findIndex(entry => keyExtractor(entry) === id);
+        const pos = layoutRef.current.positions[id];
+        if (fromIndex < 0 || !pos) return;
+
+        const withoutMoving = entries.filter((_, index) => index !== fromIndex);
+        // 移動はアイテムのセクション内に限る
+        let sectionStart = fromIndex;
+        while (sectionStart > 0 && !isSectionHeader(entries[sectionStart - 1])) {
+            sectionStart--;
+        }
+        let sectionEnd = sectionStart;
+        while (sectionEnd < withoutMoving.length && !isSectionHeader(withoutMoving[sectionEnd])) {
+            sectionEnd++;
+        }
+
+        let toIndex: number;
+        let column: number | undefined;
+        switch (action) {
+            case 'moveToStart':
+                toIndex = sectionStart;
+                break;
+            case 'moveToEnd':
+                toIndex = sectionEnd;
+                break;
+            case 'moveUp':
+            case 'moveDown': {
+                // 同じカラムで直前（直後）のアイテムと入れ替わる位置
+                const overlaps = (other: ItemPosition) =>
+                    other.column <= pos.column + pos.span - 1 && other.column + other.span - 1 >= pos.column;
+                let neighborIndex = -1;
+                let neighborY = action === 'moveUp' ? -Infinity : Infinity;
+                for (let i = sectionStart; i < sectionEnd; i++) {
+                    const other = layoutRef.current.positions[keyExtractor(withoutMoving[i])];
+                    if (!other || !overlaps(other) || isEntryLocked(withoutMoving[i])) continue;
+                    const isCloser = action === 'moveUp'
+                        ? other.y < pos.y && other.y > neighborY
+                        : other.y > pos.y && other.y < neighborY;
+                    if (isCloser) {
+                        neighborIndex = i;
+                        neighborY = other.y;
+                    }
+                }
+                if (neighborIndex < 0) return;
+                toIndex = action === 'moveUp' ? neighborIndex : neighborIndex + 1;
+                break;
+            }
+            case 'movePreviousColumn':
+            case 'moveNextColumn': {
+                // 隣のカラムの同じ高さにドロップした場合と同じ位置
+                column = pos.column + (action === 'moveNextColumn' ? 1 : -1);
+                if (column < 0 || column + pos.span > numColumns) return;
+                const { positions } = computeLayout(withoutMoving);
+                const found = findInsertIndex(
+                    column * (columnWidth + columnGap), pos.y, pos.width, pos.height,
+                    withoutMoving, positions, keyExtractor, id, -1,
+                    numColumns, columnWidth, columnGap,
+                    item => !isEntryLocked(item),
+                );
+                toIndex = Math.max(sectionStart, Math.min(found, sectionEnd));
+                break;
+            }
+        }
+
+        let newData = moveItem(entries, fromIndex, toIndex, isEntryLocked, isSectionHeader);
+        if (newData === entries) return;
+        const from = locate(entries, fromIndex);
+        if (!isMoveAllowed(entries[fromIndex] as T, from, getMoveTarget(withoutMoving, toIndex, isSectionHeader))) return;
+        const newIndex = newData.findIndex(entry => keyExtractor(entry) === id);
+        // 'anchored'戦略ではカラムを直接指定する
+        if (isAnchored && column !== undefined) {
+            newData = [...newData];
+            newData[newIndex] = { ...newData[newIndex], column };
+        }
+
+        applyApiChange(newData);
+        recordHistory(id, [id], entries, newData);
+        notifyReorder(id, [id], from, 'accessibility');
+
+        const to = locate(newData, newIndex);
+        const count = sections
+            ? unflattenSections(newData).find(section => section.key === to.section)?.data.length ?? 0
+            : newData.length;
+        AccessibilityInfo.announceForAccessibility(strings.movedTo(to.index + 1, count));
+    };
+
+    // セルは再レンダリングされないことがあるので、最新の処理を参照する安定したコールバックを渡す
+    const accessibilityActionRef = useRef(performAccessibilityAction);
+    accessibilityActionRef.current = performAccessibilityAction;
+    const handleAccessibilityAction = useCallback((id: string, actionName: string) => {
+        if ((REORDER_ACTIONS as readonly string[]).includes(actionName)) {
+            accessibilityActionRef.current(id, actionName as ReorderAction);
+        }
+    }, []);
+
+    // --- Multiple Lists ---
+    const containerRef = useRef<View>(null);
+    // 他のリストからのドラッグの挿入先判定用（仮挿入前のレイアウトと索引）
+    const incomingTargetsRef = useRef<DropTargets<Entry> | null>(null);
+
+    const previewIncoming = (item: MasonryItemType, x: number, y: number, width: number, height: number) => {
+        if (activeDragId || crossSize === 0) return;
+        const entry = item as T;
+        const key = keyExtractor(entry);
+        if (!incomingTargetsRef.current) {
+            incomingTargetsRef.current = computeDropTargets(orderedDataRef.current);
+        }
+        const targets = incomingTargetsRef.current;
+
+        // リスト内の画面座標 → コンテンツの論理座標
+        const scroll = scrollOffset.value;
+        const logical = toLogical({
+            x: x + (horizontal ? scroll : 0),
+            y: y + (horizontal ? 0 : scroll),
+            width,
+            height,
+            column: 0,
+            span: 1,
+        });
+        // このリストのカラム幅のアイテムとして、中心の位置で判定する
+        const found = findInsertIndex(
+            logical.x + (logical.width - columnWidth) / 2, logical.y, columnWidth, logical.height,
+            targets.data,
+            targets.positions,
+            keyExtractor,
+            key,
+            incomingDragRef.current?.index ?? -1,
+            numColumns,
+            columnWidth,
+            columnGap,
+            item => !isEntryLocked(item),
+            targets.index,
+        );
+        const minIndex = targets.data.length > 0 && isSectionHeader(targets.data[0]) ? 1 : 0;
+        const index = Math.max(minIndex, found);
+        if (incomingDragRef.current?.key === key && incomingDragRef.current.index === index) return;
+
+        const next = { item: entry, key, index };
+        incomingDragRef.current = next;
+        setIncomingDrag(next);
+    };
+
+    const clearIncoming = () => {
+        incomingTargetsRef.current = null;
+        if (!incomingDragRef.current) return;
+        incomingDragRef.current = null;
+        setIncomingDrag(null);
+        if (isDropIndicatorVisible.current) {
+            dropIndicatorOpacity.value = withTiming(0, { duration: 150 });
+            isDropIndicatorVisible.current = false;
+        }
+    };
+
+    // 仮挿入したアイテムをデータに加える（インジケーターはドロップと同じく同期時にフェードアウト）
+    const commitIncoming = () => {
+        const incoming = incomingDragRef.current;
+        incomingTargetsRef.current = null;
+        if (!incoming) return null;
+        incomingDragRef.current = null;
+        setIncomingDrag(null);
+
+        const newData = [...orderedDataRef.current];
+        newData.splice(incoming.index, 0, incoming.item);
+        // 親がdataに加えたときにenteringアニメーションを付けない
+        knownItemIds.current.add(incoming.key);
+        applyApiChange(newData);
+        return locate(newData, incoming.index);
+    };
+
+    const listHandleRef = useRef<MasonryListHandle | null>(null);
+    listHandleRef.current = {
+        measureInWindow: (callback: (rect: WindowRect) => void) => {
+            containerRef.current?.measureInWindow((x, y, width, height) => callback({ x, y, width, height }));
+        },
+        previewIncoming,
+        clearIncoming,
+        commitIncoming,
+    };
+
+    useEffect(() => {
+        if (!dragContext || listId === undefined) return;
+        return dragContext.registerList(listId, listHandleRef);
+    }, [dragContext, listId]);
+
+    useImperativeHandle(ref, () => ({
+        scrollToItem,
+        scrollToIndex,
+        scrollToOffset,
+        getItemLayout: (key: string) => {
+            const logicalPos = layout.positions[key];
+            return logicalPos ? toPhysical(logicalPos) : undefined;
+        },
+        getContentHeight: () => contentLength,
+        moveItem: moveItemTo,
+        swapItems: swapItemsByKey,
+        removeItem: removeItemByKey,
+        undo,
+        redo,
+        canUndo: () => historyRef.current.past.length > 0,
+        canRedo: () => historyRef.current.future.length > 0,
+        clearHistory: () => updateHistory([], []),
+    }), [scrollToItem, scrollToIndex, scrollToOffset, layout.positions, toPhysical, contentLength, moveItemTo, swapItemsByKey, removeItemByKey, undo, redo, updateHistory]);
 
     return (
-        <View onLayout={handleLayout} style={{ flex: 1 }}>
+        <View ref={containerRef} onLayout={handleLayout} style={{ flex: 1 }} collapsable={false}>
             <GestureDetector gesture={scrollGesture}>
                 <Animated.ScrollView
                     ref={scrollViewRef}
-                    onScroll={virtualizationEnabled ? onScrollHandler : undefined}
+                    horizontal={horizontal}
+                    onScroll={tracksScrollOffset ? onScrollHandler : undefined}
                     scrollEventThrottle={16}
                     scrollEnabled={!activeDragId}
                     bounces={!activeDragId}
-                    contentContainerStyle={[{ height: layout.totalHeight + 100 }, contentContainerStyle]}
+                    // 横方向のプルして更新はプラットフォームが対応していないので、onRefreshは縦方向だけ
+                    refreshControl={refreshControl ?? (onRefresh && !horizontal
+                        ? <RefreshControl refreshing={refreshing} onRefresh={onRefresh} enabled={!activeDragId} />
+                        : undefined)}
+                    contentContainerStyle={[
+                        // アイテムは物理座標（left）で配置するため、RTLのアプリでも左右を入れ替えない
+                        styles.contentContainer,
+                        horizontal
+                            ? { width: contentLength, height: containerHeight }
+                            : { height: contentLength },
+                        contentContainerStyle,
+                    ]}
                 >
+                    <ListComponentSlot
+                        component={ListHeaderComponent}
+                        offset={0}
+                        horizontal={horizontal}
+                        onMeasure={setHeaderLength}
+                    />
+                    {isEmpty && (
+                        <ListComponentSlot
+                            component={ListEmptyComponent}
+                            offset={headerLength}
+                            horizontal={horizontal}
+                            onMeasure={setEmptyLength}
+                        />
+                    )}
+                    <ListComponentSlot
+                        component={ListFooterComponent}
+                        offset={headerLength + bodyLength}
+                        horizontal={horizontal}
+                        onMeasure={setFooterLength}
+                    />
+
                     {/* ドロップインジケーター（アニメーション付き） */}
                     {showDropIndicator && (
                         <DropIndicator
@@ -784,15 +1852,24 @@ function DraggableMasonryList<T extends MasonryItemType>({
                             height={dropIndicatorHeight}
                             opacity={dropIndicatorOpacity}
                             style={dropIndicatorStyle}
+                            invalid={isDropInvalid}
+                            invalidStyle={invalidDropIndicatorStyle}
                         />
                     )}
 
-                    {visibleItems.map((item) => {
-                        const pos = layout.positions[keyExtractor(item)];
-                        if (!pos) return null;
+                    {renderedItems.map((item) => {
+                        // グループドラッグで重ねたアイテムはレイアウトから外れているのでドラッグ開始時のサイズを使う
+                        const logicalPos = layout.positions[keyExtractor(item)] ?? dragGroup?.positions[keyExtractor(item)];
+                        if (!logicalPos) return null;
 
-                        const originalIndex = displayData.findIndex(d => keyExtractor(d) === keyExtractor(item));
+                        const pos = toPhysical(logicalPos);
+                        const isHeader = isSectionHeader(item);
+                        const stackIndex = dragGroup ? dragGroup.followers.indexOf(item) : -1;
                         const isDragging = activeDragId === keyExtractor(item);
+                        // 持ち上げられたアイテム（ドラッグ中のアイテムと、その下に重ねたアイテム）
+                        const isLifted = isDragging || stackIndex >= 0;
+                        // オーバーレイに描画中のアイテムと、他のリストから仮挿入したアイテムは隠す
+                        const hidden = (isDragging && isProviderDrag && !dragGroup) || incomingDrag?.key === keyExtractor(item);
 
                         return (
                             <MasonryItem
@@ -807,26 +1884,43 @@ function DraggableMasonryList<T extends MasonryItemType>({
                                 onDragChange={handleDragChange}
                                 isDragging={isDragging}
                                 scrollOffset={scrollOffset}
-                                dragY={dragY}
-                                dragStartScrollY={dragStartScrollY}
-                                sortEnabled={sortEnabled}
-                                swapMode={swapMode}
+                                dragScreenPos={dragScreenPos}
+                                dragStartScrollOffset={dragStartScrollOffset}
+                                horizontal={horizontal}
+                                groupDragX={groupDragX}
+                                groupDragY={groupDragY}
+                                stackIndex={stackIndex}
+                                dragWindowX={dragWindowX}
+                                dragWindowY={dragWindowY}
+                                hidden={hidden}
+                                isMergeTarget={mergeTargetKey === keyExtractor(item)}
+                                showMergeHighlight={!!onMergeItems && !isHeader}
+                                mergeHighlightStyle={mergeHighlightStyle}
+                                sortEnabled={sortEnabled && isEntryDraggable(item) && stackIndex < 0}
                                 dragActivationDelay={dragActivationDelay}
+                                dragHandleMode={dragHandleMode}
                                 activationAnimationDuration={activationAnimationDuration}
                                 dropAnimationDuration={dropAnimationDuration}
                                 overDrag={overDrag}
-                                containerWidth={containerWidth}
-                                containerHeight={layout.totalHeight}
-                                activeItemScale={isDragging ? activeItemScale : (activeDragId !== null ? inactiveItemScale : 1)}
-                                activeItemOpacity={isDragging ? activeItemOpacity : (activeDragId !== null ? inactiveItemOpacity : 1)}
+                                containerWidth={horizontal ? headerLength + layout.totalHeight : containerWidth}
+                                containerHeight={horizontal ? containerHeight : headerLength + layout.totalHeight}
+                                contentStart={headerLength}
+                                activeItemScale={isLifted ? activeItemScale : (activeDragId !== null ? inactiveItemScale : 1)}
+                                activeItemOpacity={isLifted ? activeItemOpacity : (activeDragId !== null ? inactiveItemOpacity : 1)}
                                 activeItemShadowOpacity={activeItemShadowOpacity}
                                 isAnyDragging={activeDragId !== null}
                                 isNewItem={newItemIds.current.has(keyExtractor(item))}
                                 itemEntering={newItemIds.current.has(keyExtractor(item)) ? itemEntering : undefined}
-                                itemExiting={itemExiting}
+                                itemExiting={hidden ? undefined : itemExiting}
                                 scrollGesture={scrollGesture}
+                                measure={getDeclaredSize(item, logicalPos.width) == null ? (horizontal ? 'width' : 'height') : null}
+                                onMeasure={handleItemMeasure}
+                                accessibilityActions={accessibilityReorder && sortEnabled && isEntryDraggable(item) ? accessibilityActions : undefined}
+                                onAccessibilityAction={handleAccessibilityAction}
                             >
-                                {renderItem({ item, index: originalIndex })}
+                                {isHeader
+                                    ? renderSectionHeader?.({ section: item.section })
+                                    : renderItem({ item, ...renderInfoByKey.get(keyExtractor(item))! })}
                             </MasonryItem>
                         );
                     })}
@@ -837,6 +1931,14 @@ function DraggableMasonryList<T extends MasonryItemType>({
 }
 
 const styles = StyleSheet.create({
+    contentContainer: {
+        direction: 'ltr',
+    },
+    // コンテナはLTRなので、中身はアプリの向きに戻す
+    listComponent: {
+        position: 'absolute',
+        direction: I18nManager.isRTL ? 'rtl' : 'ltr',
+    },
     dropIndicator: {
         position: 'absolute',
         backgroundColor: 'rgba(0, 122, 255, 0.2)',
@@ -845,6 +1947,13 @@ const styles = StyleSheet.create({
         borderStyle: 'dashed',
         borderRadius: 8,
     },
+    dropIndicatorInvalid: {
+        backgroundColor: 'rgba(255, 59, 48, 0.15)',
+        borderColor: 'rgba(255, 59, 48, 0.6)',
+    },
 });
 
-export default DraggableMasonryList;
+// forwardRefはジェネリクスを失うため、型引数付きのコンポーネントとして公開する
+export default forwardRef(DraggableMasonryList) as <T extends MasonryItemType>(
+    props: DraggableMasonryListProps<T> & { ref?: React.Ref<DraggableMasonryListRef> }
+) => React.ReactElement | null;
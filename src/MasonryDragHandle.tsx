@@ -0,0 +1,54 @@
+import React, { createContext, useContext, useRef } from 'react';
+import { View } from 'react-native';
+import { GestureDetector, type GestureType } from 'react-native-gesture-handler';
+
+import { useSharedValue, type SharedValue } from 'react-native-reanimated';
+import type { MasonryDragHandleProps } from './types';
+
+/**
+ * `dragHandleMode="handle"`のセルがハンドルに渡すドラッグの情報
+ */
+interface MasonryDragHandleContextValue {
+    /** セルのドラッグジェスチャーを作る（offsetはセル内でのハンドルの位置） */
+    createGesture: (activationDelay: number, offsetX: SharedValue<number>, offsetY: SharedValue<number>) => GestureType;
+    /** ハンドルの位置の基準になるセルのView */
+    cellRef: React.RefObject<View | null>;
+    activationDelay: number;
+}
+
+export const MasonryDragHandleContext = createContext<MasonryDragHandleContextValue | null>(null);
+
+/**
+ * `dragHandleMode="handle"`では、このコンポーネントの中からだけドラッグを開始できる
+ * （それ以外のモードやリストの外では子要素をそのまま描画する）
+ */
+export function MasonryDragHandle({ children, activationDelay, style }: MasonryDragHandleProps) {
+    const context = useContext(MasonryDragHandleContext);
+    const ref = useRef<View>(null);
+    // セル内でのハンドルの位置（タッチ位置をセル基準に直す）
+    const offsetX = useSharedValue(0);
+    const offsetY = useSharedValue(0);
+
+    if (!context) {
+        return <View style={style}>{children}</View>;
+    }
+
+    const handleLayout = () => {
+        const cell = context.cellRef.current;
+        if (!cell) return;
+        ref.current?.measureLayout(cell, (x, y) => {
+            offsetX.value = x;
+            offsetY.value = y;
+        });
+    };
+
+    const gesture = context.createGesture(activationDelay ?? context.activationDelay, offsetX, offsetY);
+
+    return (
+        <GestureDetector gesture={gesture}>
+            <View ref={ref} style={style} onLayout={handleLayout} collapsable={false}>
+                {children}
+            </View>
+        </GestureDetector>
+    );
+}
@@ -0,0 +1,382 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { StyleSheet, View } from 'react-native';
+
+import type { SharedValue } from 'react-native-reanimated';
+import Animated, { useAnimatedStyle, useSharedValue, withTiming } from 'react-native-reanimated';
+import type {
+    DropOutsideCallback,
+    DropOutsideParams,
+    ExitAnimationType,
+    MasonryDragProviderProps,
+    MasonryDropZone,
+    MasonryItem,
+} from './types';
+
+/**
+ * リストの画面上の位置（ウィンドウ座標）
+ */
+export interface WindowRect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/**
+ * プロバイダーから各リストを操作するためのハンドル
+ */
+export interface MasonryListHandle {
+    measureInWindow: (callback: (rect: WindowRect) => void) => void;
+    /** 他のリストからドラッグ中のアイテムを、リスト内の座標（画面座標）の位置に仮挿入する */
+    previewIncoming: (item: MasonryItem, x: number, y: number, width: number, height: number) => void;
+    clearIncoming: () => void;
+    /** 仮挿入したアイテムを確定し、挿入位置を返す */
+    commitIncoming: () => { index: number; section?: string } | null;
+}
+
+/**
+ * プロバイダーからドロップゾーンを操作するためのハンドル
+ */
+interface MasonryDropZoneHandle {
+    measureInWindow: (callback: (rect: WindowRect) => void) => void;
+    setIsOver: (isOver: boolean) => void;
+    onDrop: (params: DropOutsideParams) => void;
+}
+
+/**
+ * ドラッグ中のアイテム（オーバーレイの描画と移動先への受け渡し用）
+ */
+export interface MasonryDragSession {
+    /** 元のリストの`listId`（なければ他のリストには運べない） */
+    listId?: string;
+    key: string;
+    /** グループドラッグでは選択中の全てのキー */
+    keys: string[];
+    item: MasonryItem;
+    fromIndex: number;
+    fromSection?: string;
+    /** オーバーレイに描画する内容（元のリストのrenderItemの結果）。nullならリスト内で描画する */
+    content: React.ReactNode | null;
+    /** ドロップゾーンに落としたときにオーバーレイを消すアニメーション */
+    itemExiting?: ExitAnimationType;
+    width: number;
+    height: number;
+    scale: number;
+    opacity: number;
+    shadowOpacity: number;
+    activationAnimationDuration: number;
+}
+
+export interface MasonryDragContextValue {
+    /** ドラッグ中のアイテムの左上のウィンドウ座標（MasonryItemが更新する） */
+    dragWindowX: SharedValue<number>;
+    dragWindowY: SharedValue<number>;
+    registerList: (listId: string, handle: React.RefObject<MasonryListHandle | null>) => () => void;
+    registerDropZone: (zoneId: string, handle: React.RefObject<MasonryDropZoneHandle | null>) => () => void;
+    beginDrag: (session: MasonryDragSession) => void;
+    /**
+     * アイテムがドロップゾーンか他のリストの上にあればtrueを返す
+     * （ゾーンはisOverを更新し、リストには挿入位置を表示する）
+     */
+    updateDrag: () => boolean;
+    /**
+     * ドロップゾーンの上ならゾーンのonDropを、他のリストの上なら移動先に挿入してonItemTransferを呼ぶ
+     */
+    endDrag: () => MasonryDropResult;
+}
+
+/** ドロップ先（null = 元のリスト内） */
+export type MasonryDropResult = { type: 'transfer' } | { type: 'zone'; zoneId: string } | null;
+
+export const MasonryDragContext = createContext<MasonryDragContextValue | null>(null);
+
+/**
+ * ドラッグ中のアイテムを全てのリストより前面に描画するオーバーレイ
+ */
+interface DragOverlayProps {
+    session: MasonryDragSession;
+    /** ドロップゾーンに落としてitemExitingで消える途中 */
+    removing: boolean;
+    x: SharedValue<number>;
+    y: SharedValue<number>;
+    originX: SharedValue<number>;
+    originY: SharedValue<number>;
+}
+
+const DragOverlay = ({ session, removing, x, y, originX, originY }: DragOverlayProps) => {
+    // 元のセルと同じく持ち上げるアニメーション
+    const progress = useSharedValue(0);
+    useEffect(() => {
+        progress.value = withTiming(1, { duration: session.activationAnimationDuration });
+    }, []);
+
+    const { width, height, scale, opacity, shadowOpacity } = session;
+    const animatedStyle = useAnimatedStyle(() => ({
+        left: x.value - originX.value,
+        top: y.value - originY.value,
+        width,
+        height,
+        opacity: 1 + (opacity - 1) * progress.value,
+        shadowOpacity: shadowOpacity * progress.value,
+        transform: [{ scale: 1 + (scale - 1) * progress.value }],
+    }));
+
+    return (
+        <Animated.View
+            pointerEvents="none"
+            style={[styles.overlay, animatedStyle]}
+            exiting={removing ? session.itemExiting : undefined}
+        >
+            {session.content}
+        </Animated.View>
+    );
+};
+
+/**
+ * 複数のDraggableMasonryList（`listId`を指定したもの）の間や、
+ * useMasonryDropZoneのドロップゾーンへアイテムをドラッグできるようにする
+ */
+export function MasonryDragProvider({ children, onItemTransfer, style }: MasonryDragProviderProps) {
+    const rootRef = useRef<View>(null);
+    const listsRef = useRef(new Map<string, React.RefObject<MasonryListHandle | null>>());
+    const rectsRef = useRef(new Map<string, WindowRect>());
+    const zonesRef = useRef(new Map<string, React.RefObject<MasonryDropZoneHandle | null>>());
+    const zoneRectsRef = useRef(new Map<string, WindowRect>());
+    const sessionRef = useRef<MasonryDragSession | null>(null);
+    const targetListIdRef = useRef<string | null>(null);
+    const overZoneIdRef = useRef<string | null>(null);
+    const [overlay, setOverlay] = useState<{ session: MasonryDragSession; removing: boolean } | null>(null);
+
+    // itemExitingを設定した状態を一度描画してからアンマウントする
+    useEffect(() => {
+        if (overlay?.removing) {
+            setOverlay(null);
+        }
+    }, [overlay]);
+
+    const dragWindowX = useSharedValue(0);
+    const dragWindowY = useSharedValue(0);
+    // オーバーレイの座標の基準（プロバイダーのウィンドウ座標）
+    const originX = useSharedValue(0);
+    const originY = useSharedValue(0);
+
+    const onItemTransferRef = useRef(onItemTransfer);
+    onItemTransferRef.current = onItemTransfer;
+
+    const registerList = useCallback((listId: string, handle: React.RefObject<MasonryListHandle | null>) => {
+        listsRef.current.set(listId, handle);
+        return () => {
+            if (listsRef.current.get(listId) === handle) {
+                listsRef.current.delete(listId);
+                rectsRef.current.delete(listId);
+            }
+        };
+    }, []);
+
+    const registerDropZone = useCallback((zoneId: string, handle: React.RefObject<MasonryDropZoneHandle | null>) => {
+        zonesRef.current.set(zoneId, handle);
+        return () => {
+            if (zonesRef.current.get(zoneId) === handle) {
+                zonesRef.current.delete(zoneId);
+                zoneRectsRef.current.delete(zoneId);
+                if (overZoneIdRef.current === zoneId) {
+                    overZoneIdRef.current = null;
+                }
+            }
+        };
+    }, []);
+
+    const setOverZone = (zoneId: string | null) => {
+        const previousId = overZoneIdRef.current;
+        if (previousId === zoneId) return;
+        overZoneIdRef.current = zoneId;
+        if (previousId) zonesRef.current.get(previousId)?.current?.setIsOver(false);
+        if (zoneId) zonesRef.current.get(zoneId)?.current?.setIsOver(true);
+    };
+
+    const beginDrag = useCallback((next: MasonryDragSession) => {
+        sessionRef.current = next;
+        targetListIdRef.current = null;
+        overZoneIdRef.current = null;
+        setOverlay(next.content !== null ? { session: next, removing: false } : null);
+
+        // 画面のスクロールなどで位置が変わるため、ドラッグごとに測り直す
+        rootRef.current?.measureInWindow((x, y) => {
+            originX.value = x;
+            originY.value = y;
+        });
+        rectsRef.current.clear();
+        // 他のリストに運べるのは、listIdのあるリストからの1つのアイテムだけ
+        if (next.listId !== undefined && next.content !== null) {
+            listsRef.current.forEach((handle, listId) => {
+                if (listId === next.listId) return;
+                handle.current?.measureInWindow(rect => {
+                    rectsRef.current.set(listId, rect);
+                });
+            });
+        }
+        zoneRectsRef.current.clear();
+        zonesRef.current.forEach((handle, zoneId) => {
+            handle.current?.measureInWindow(rect => {
+                zoneRectsRef.current.set(zoneId, rect);
+            });
+        });
+    }, []);
+
+    const updateDrag = useCallback(() => {
+        const current = sessionRef.current;
+        if (!current) return false;
+
+        const x = dragWindowX.value;
+        const y = dragWindowY.value;
+
+        // ドロップゾーンは小さいことが多いので、アイテムと最も大きく重なるゾーンを選ぶ
+        let zoneId: string | null = null;
+        let maxOverlap = 0;
+        for (const [id, rect] of zoneRectsRef.current) {
+            const overlapX = Math.min(x + current.width, rect.x + rect.width) - Math.max(x, rect.x);
+            const overlapY = Math.min(y + current.height, rect.y + rect.height) - Math.max(y, rect.y);
+            if (overlapX > 0 && overlapY > 0 && overlapX * overlapY > maxOverlap) {
+                zoneId = id;
+                maxOverlap = overlapX * overlapY;
+            }
+        }
+        setOverZone(zoneId);
+
+        // リストはアイテムの中心がある方（ゾーンの上ではどのリストにも挿入しない）
+        const centerX = x + current.width / 2;
+        const centerY = y + current.height / 2;
+        let targetId: string | null = null;
+        for (const [listId, rect] of zoneId ? [] : rectsRef.current) {
+            if (centerX >= rect.x && centerX < rect.x + rect.width &&
+                centerY >= rect.y && centerY < rect.y + rect.height) {
+                targetId = listId;
+                break;
+            }
+        }
+
+        const previousId = targetListIdRef.current;
+        if (previousId && previousId !== targetId) {
+            listsRef.current.get(previousId)?.current?.clearIncoming();
+        }
+        targetListIdRef.current = targetId;
+        if (!targetId) return zoneId !== null;
+
+        const rect = rectsRef.current.get(targetId)!;
+        listsRef.current.get(targetId)?.current?.previewIncoming(
+            current.item, x - rect.x, y - rect.y, current.width, current.height
+        );
+        return true;
+    }, []);
+
+    const endDrag = useCallback((): MasonryDropResult => {
+        const current = sessionRef.current;
+        const targetId = targetListIdRef.current;
+        const zoneId = overZoneIdRef.current;
+        sessionRef.current = null;
+        targetListIdRef.current = null;
+        setOverZone(null);
+        if (!current) return null;
+
+        if (zoneId) {
+            setOverlay(prev => (prev ? { ...prev, removing: true } : null));
+            zonesRef.current.get(zoneId)?.current?.onDrop({
+                key: current.key,
+                keys: current.keys,
+                item: current.item,
+                zoneId,
+                ...(current.listId !== undefined && { listId: current.listId }),
+            });
+            return { type: 'zone', zoneId };
+        }
+
+        setOverlay(null);
+        const location = targetId ? listsRef.current.get(targetId)?.current?.commitIncoming() : null;
+        if (!targetId || !location || current.listId === undefined) return null;
+
+        onItemTransferRef.current?.({
+            key: current.key,
+            item: current.item,
+            fromListId: current.listId,
+            toListId: targetId,
+            fromIndex: current.fromIndex,
+            ...(current.fromSection !== undefined && { fromSection: current.fromSection }),
+            toIndex: location.index,
+            ...(location.section !== undefined && { toSection: location.section }),
+        });
+        return { type: 'transfer' };
+    }, []);
+
+    const value = useMemo<MasonryDragContextValue>(() => ({
+        dragWindowX,
+        dragWindowY,
+        registerList,
+        registerDropZone,
+        beginDrag,
+        updateDrag,
+        endDrag,
+    }), [registerList, registerDropZone, beginDrag, updateDrag, endDrag]);
+
+    return (
+        <MasonryDragContext.Provider value={value}>
+            <View ref={rootRef} style={[styles.root, style]} collapsable={false}>
+                {children}
+                {overlay && (
+                    <DragOverlay
+                        key={overlay.session.key}
+                        session={overlay.session}
+                        removing={overlay.removing}
+                        x={dragWindowX}
+                        y={dragWindowY}
+                        originX={originX}
+                        originY={originY}
+                    />
+                )}
+            </View>
+        </MasonryDragContext.Provider>
+    );
+}
+
+/**
+ * リストの外のドロップゾーン（ゴミ箱など）。返したrefをViewに渡すと、
+ * MasonryDragProvider内のリストからドラッグしたアイテムを落とせるようになる
+ */
+export function useMasonryDropZone<T extends MasonryItem = MasonryItem>(
+    zoneId: string,
+    onDrop?: DropOutsideCallback<T>
+): MasonryDropZone {
+    const context = useContext(MasonryDragContext);
+    const ref = useRef<View>(null);
+    const [isOver, setIsOver] = useState(false);
+
+    const onDropRef = useRef(onDrop);
+    onDropRef.current = onDrop;
+    const handleRef = useRef<MasonryDropZoneHandle | null>(null);
+    handleRef.current = {
+        measureInWindow: callback => {
+            ref.current?.measureInWindow((x, y, width, height) => callback({ x, y, width, height }));
+        },
+        setIsOver,
+        onDrop: params => onDropRef.current?.(params as DropOutsideParams<T>),
+    };
+
+    useEffect(() => {
+        if (!context) return;
+        return context.registerDropZone(zoneId, handleRef);
+    }, [context, zoneId]);
+
+    return { ref, isOver };
+}
+
+const styles = StyleSheet.create({
+    root: {
+        flex: 1,
+    },
+    overlay: {
+        position: 'absolute',
+        zIndex: 999,
+        shadowRadius: 10,
+        shadowOffset: { width: 0, height: 5 },
+        elevation: 5,
+    },
+});
@@ -1,4 +1,5 @@
-import React, { memo } from 'react';
+import React, { memo, useCallback } from 'react';
+import { I18nManager, StyleSheet, View, type AccessibilityActionEvent, type AccessibilityActionInfo, type LayoutChangeEvent, type StyleProp, type ViewStyle } from 'react-native';
 import { Gesture, GestureDetector, type GestureType } from 'react-native-gesture-handler';
 import Animated, {
     cancelAnimation,
@@ -9,7 +10,21 @@ import Animated, {
     withTiming,
     type SharedValue,
 } from 'react-native-reanimated';
-import type { EntryAnimationType, ExitAnimationType, OverDragType } from './types';
+import { getMeasuredSize } from './core/layout';
+import { MasonryDragHandleContext } from './MasonryDragHandle';
+import type { DragHandleMode, EntryAnimationType, ExitAnimationType, OverDragType } from './types';
+
+// グループドラッグで重ねたアイテムのずらし量（4枚目以降は3枚目の後ろに隠れる）
+const STACK_OFFSET = 6;
+const MAX_STACK_DEPTH = 3;
+
+// マージ先の候補になったアイテムの拡大率
+const MERGE_TARGET_SCALE = 1.06;
+
+const getStackOffset = (stackIndex: number) => {
+    'worklet';
+    return Math.min(stackIndex + 1, MAX_STACK_DEPTH) * STACK_OFFSET;
+};
 
 interface MasonryItemProps {
     id: string;
@@ -20,19 +35,31 @@ interface MasonryItemProps {
     children: React.ReactNode;
     onDragStart: (id: string) => void;
     onDragEnd: (id: string) => void;
-    onDragChange: (id: string, x: number, y: number, screenY: number) => void;
+    onDragChange: (id: string, x: number, y: number, screenPos: number) => void;
     isDragging: boolean;
     scrollOffset: SharedValue<number>;
-    dragY: SharedValue<number>;
-    dragStartScrollY: SharedValue<number>;
+    dragScreenPos: SharedValue<number>; // スクロール方向の画面座標（オートスクロール用）
+    dragStartScrollOffset: SharedValue<number>;
+    horizontal: boolean; // trueならスクロールオフセットをX方向に適用
+    groupDragX: SharedValue<number>; // ドラッグ中のアイテムの位置（スクロール量を含まない、グループドラッグ用）
+    groupDragY: SharedValue<number>;
+    stackIndex: number; // グループドラッグでドラッグ中のアイテムの下に重ねる順番（-1 = 重ねない）
+    dragWindowX: SharedValue<number>; // ドラッグ中のアイテムの左上のウィンドウ座標（リスト間のドラッグ用）
+    dragWindowY: SharedValue<number>;
+    hidden: boolean; // 共通のオーバーレイに描画している間や、他のリストからの挿入位置の確保に使う
+    isMergeTarget: boolean; // ドラッグ中のアイテムを重ねる（マージする）候補
+    showMergeHighlight: boolean; // マージが有効ならハイライト用のViewを置く
+    mergeHighlightStyle?: StyleProp<ViewStyle>;
     // New props
     sortEnabled: boolean;
     dragActivationDelay: number;
+    dragHandleMode: DragHandleMode; // 'handle'ならセル全体ではなくMasonryDragHandleからドラッグする
     activationAnimationDuration: number;
     dropAnimationDuration: number;
     overDrag: OverDragType;
     containerWidth: number;
     containerHeight: number;
+    contentStart: number; // アイテム領域のスクロール方向の開始位置（リストヘッダーの長さ）
     activeItemScale: number;
     activeItemOpacity: number;
     activeItemShadowOpacity: number;
@@ -41,6 +68,10 @@ interface MasonryItemProps {
     itemEntering?: EntryAnimationType;
     itemExiting?: ExitAnimationType;
     scrollGesture: GestureType;
+    measure: 'height' | 'width' | null; // サイズ未指定のアイテムはセルを計測する
+    onMeasure: (id: string, size: number) => void;
+    accessibilityActions?: readonly AccessibilityActionInfo[]; // 指定するとセルを1つの要素にまとめて並び替え操作を提供
+    onAccessibilityAction: (id: string, actionName: string) => void;
 }
 
 const MasonryItemComponent = ({
@@ -55,15 +86,27 @@ const MasonryItemComponent = ({
     onDragChange,
     isDragging,
     scrollOffset,
-    dragY,
-    dragStartScrollY,
+    dragScreenPos,
+    dragStartScrollOffset,
+    horizontal,
+    groupDragX,
+    groupDragY,
+    stackIndex,
+    dragWindowX,
+    dragWindowY,
+    hidden,
+    isMergeTarget,
+    showMergeHighlight,
+    mergeHighlightStyle,
     sortEnabled,
     dragActivationDelay,
+    dragHandleMode,
     activationAnimationDuration,
     dropAnimationDuration,
     overDrag,
     containerWidth,
     containerHeight,
+    contentStart,
     activeItemScale,
     activeItemOpacity,
     activeItemShadowOpacity,
@@ -72,6 +115,10 @@ const MasonryItemComponent = ({
     itemEntering,
     itemExiting,
     scrollGesture,
+    measure,
+    onMeasure,
+    accessibilityActions,
+    onAccessibilityAction,
 }: MasonryItemProps) => {
     const startX = useSharedValue(0);
     const startY = useSharedValue(0);
@@ -84,6 +131,19 @@ const MasonryItemComponent = ({
     const animatedX = useSharedValue(x);
     const animatedY = useSharedValue(y);
 
+    // グループドラッグで元の位置から重ねる位置へ移る進み具合（0〜1）
+    const stackProgress = useSharedValue(0);
+
+    // アイテム内でのタッチ位置（ウィンドウ座標の計算用）
+    const touchX = useSharedValue(0);
+    const touchY = useSharedValue(0);
+
+    // マージ先の候補のハイライト（0〜1）
+    const mergeProgress = useSharedValue(0);
+    React.useEffect(() => {
+        mergeProgress.value = withTiming(isMergeTarget ? 1 : 0, { duration: activationAnimationDuration });
+    }, [isMergeTarget]);
+
     // 新規アイテムかつentering animationがある場合のみ、マウント後にフラグを立てる
     const isMounted = useSharedValue(!(isNewItem && itemEntering));
 
@@ -104,12 +164,45 @@ const MasonryItemComponent = ({
     const prevIsDragging = React.useRef(isDragging);
     const prevX = React.useRef(x);
     const prevY = React.useRef(y);
+    const prevStackIndex = React.useRef(stackIndex);
 
     // propsが変わったら目標位置を更新（ドラッグ中以外）
     React.useEffect(() => {
         targetX.value = x;
         targetY.value = y;
 
+        // グループドラッグで重ねられた場合は、元の位置から重ねる位置へ移る
+        const previousStackIndex = prevStackIndex.current;
+        prevStackIndex.current = stackIndex;
+        if (stackIndex >= 0) {
+            if (previousStackIndex < 0) {
+                stackProgress.value = 0;
+                stackProgress.value = withTiming(1, { duration: activationAnimationDuration });
+            }
+            return;
+        }
+        if (previousStackIndex >= 0) {
+            // ドロップ後は重なっていた位置から新しい位置へ
+            const scrollDelta = scrollOffset.value - dragStartScrollOffset.value;
+            const offset = getStackOffset(previousStackIndex);
+            cancelAnimation(animatedX);
+            cancelAnimation(animatedY);
+            animatedX.value = groupDragX.value + (horizontal ? scrollDelta : 0) + offset;
+            animatedY.value = groupDragY.value + (horizontal ? 0 : scrollDelta) + offset;
+            stackProgress.value = 0;
+            prevX.current = x;
+            prevY.current = y;
+            animatedX.value = withTiming(x, {
+                duration: dropAnimationDuration,
+                easing: Easing.out(Easing.cubic),
+            });
+            animatedY.value = withTiming(y, {
+                duration: dropAnimationDuration,
+                easing: Easing.out(Easing.cubic),
+            });
+            return;
+        }
+
         // ドラッグ終了を検出
         const justDropped = prevIsDragging.current && !isDragging;
         if (justDropped) {
@@ -152,14 +245,15 @@ const MasonryItemComponent = ({
                 easing: Easing.out(Easing.cubic),
             });
         }
-    }, [x, y, isDragging, dropAnimationDuration]);
+    }, [x, y, isDragging, stackIndex, dropAnimationDuration]);
 
     const lastUpdateTime = useSharedValue(0);
     const THROTTLE_MS = 100; // パフォーマンス改善: 50ms→100ms
 
-    const panGesture = Gesture.Pan()
+    // ドラッグジェスチャー（ハンドルから始める場合、offsetはセル内でのハンドルの位置）
+    const createPanGesture = (activationDelay: number, offsetX?: SharedValue<number>, offsetY?: SharedValue<number>) => Gesture.Pan()
         .enabled(sortEnabled)
-        .activateAfterLongPress(dragActivationDelay)
+        .activateAfterLongPress(activationDelay)
         .simultaneousWithExternalGesture(scrollGesture)
         .onStart((e) => {
             startX.value = targetX.value;
@@ -170,8 +264,14 @@ const MasonryItemComponent = ({
             animatedX.value = targetX.value;
             animatedY.value = targetY.value;
 
-            dragStartScrollY.value = scrollOffset.value;
-            dragY.value = e.absoluteY;
+            dragStartScrollOffset.value = scrollOffset.value;
+            dragScreenPos.value = horizontal ? e.absoluteX : e.absoluteY;
+            groupDragX.value = startX.value;
+            groupDragY.value = startY.value;
+            touchX.value = e.x + (offsetX ? offsetX.value : 0);
+            touchY.value = e.y + (offsetY ? offsetY.value : 0);
+            dragWindowX.value = e.absoluteX - touchX.value;
+            dragWindowY.value = e.absoluteY - touchY.value;
             lastUpdateTime.value = 0;
             runOnJS(onDragStart)(id);
         })
@@ -179,33 +279,41 @@ const MasonryItemComponent = ({
             let transX = e.translationX;
             let transY = e.translationY;
 
+            // スクロール量はスクロール方向の軸にのみ加算
+            const scrollDelta = scrollOffset.value - dragStartScrollOffset.value;
+            const scrollDeltaX = horizontal ? scrollDelta : 0;
+            const scrollDeltaY = horizontal ? 0 : scrollDelta;
+
             // overDrag制限を適用
             if (overDrag !== 'both') {
-                const currentX = startX.value + transX;
-                const currentY = startY.value + transY;
-                const scrollDelta = scrollOffset.value - dragStartScrollY.value;
-                const absoluteY = currentY + scrollDelta;
+                const absoluteX = startX.value + transX + scrollDeltaX;
+                const absoluteY = startY.value + transY + scrollDeltaY;
 
                 if (overDrag === 'none' || overDrag === 'vertical') {
                     // 水平方向の制限
-                    const minX = 0;
+                    const minX = horizontal ? contentStart : 0;
                     const maxX = containerWidth - width;
-                    const clampedX = Math.max(minX, Math.min(maxX, currentX));
-                    transX = clampedX - startX.value;
+                    const clampedX = Math.max(minX, Math.min(maxX, absoluteX));
+                    transX = clampedX - startX.value - scrollDeltaX;
                 }
 
                 if (overDrag === 'none' || overDrag === 'horizontal') {
                     // 垂直方向の制限
-                    const minY = 0;
+                    const minY = horizontal ? 0 : contentStart;
                     const maxY = containerHeight - height;
                     const clampedY = Math.max(minY, Math.min(maxY, absoluteY));
-                    transY = clampedY - startY.value - scrollDelta;
+                    transY = clampedY - startY.value - scrollDeltaY;
                 }
             }
 
             translationX.value = transX;
             translationY.value = transY;
-            dragY.value = e.absoluteY;
+            groupDragX.value = startX.value + transX;
+            groupDragY.value = startY.value + transY;
+            dragWindowX.value = e.absoluteX - touchX.value;
+            dragWindowY.value = e.absoluteY - touchY.value;
+            const screenPos = horizontal ? e.absoluteX : e.absoluteY;
+            dragScreenPos.value = screenPos;
 
             const now = Date.now();
             if (now - lastUpdateTime.value < THROTTLE_MS) {
@@ -213,11 +321,10 @@ const MasonryItemComponent = ({
             }
             lastUpdateTime.value = now;
 
-            const scrollDelta = scrollOffset.value - dragStartScrollY.value;
-            const absoluteX = startX.value + transX;
-            const absoluteY = startY.value + transY + scrollDelta;
+            const absoluteX = startX.value + transX + scrollDeltaX;
+            const absoluteY = startY.value + transY + scrollDeltaY;
 
-            runOnJS(onDragChange)(id, absoluteX, absoluteY, e.absoluteY);
+            runOnJS(onDragChange)(id, absoluteX, absoluteY, screenPos);
         })
         .onEnd(() => {
             // ドラッグ終了時の位置を保存
@@ -231,22 +338,45 @@ const MasonryItemComponent = ({
             translationY.value = 0;
 
             // animatedX/YにはscrollDeltaを含む（isDragging=falseになった時に正しい位置を表示）
-            const scrollDelta = scrollOffset.value - dragStartScrollY.value;
-            animatedX.value = finalX;
-            animatedY.value = finalY + scrollDelta;
+            const scrollDelta = scrollOffset.value - dragStartScrollOffset.value;
+            animatedX.value = horizontal ? finalX + scrollDelta : finalX;
+            animatedY.value = horizontal ? finalY : finalY + scrollDelta;
 
             runOnJS(onDragEnd)(id);
         });
 
+    const panGesture = dragHandleMode === 'item' ? createPanGesture(dragActivationDelay) : null;
+    // ハンドルの位置の基準
+    const cellRef = React.useRef<View>(null);
+
 
     // レイアウトアニメーション用のスタイル（外側のラッパー）
     const wrapperStyle = useAnimatedStyle(() => {
+        if (stackIndex >= 0) {
+            // グループドラッグ: ドラッグ中のアイテムの下に少しずらして重ねる
+            const scrollDelta = scrollOffset.value - dragStartScrollOffset.value;
+            const offset = getStackOffset(stackIndex);
+            const stackX = groupDragX.value + (horizontal ? scrollDelta : 0) + offset;
+            const stackY = groupDragY.value + (horizontal ? 0 : scrollDelta) + offset;
+            const progress = stackProgress.value;
+            return {
+                position: 'absolute' as const,
+                left: animatedX.value + (stackX - animatedX.value) * progress,
+                top: animatedY.value + (stackY - animatedY.value) * progress,
+                width: width,
+                height: height,
+                zIndex: Math.max(2, 998 - stackIndex),
+            };
+        }
+
         const isActive = isDragging;
-        const scrollDelta = isActive ? (scrollOffset.value - dragStartScrollY.value) : 0;
+        const scrollDelta = isActive ? (scrollOffset.value - dragStartScrollOffset.value) : 0;
 
-        const translateX = isActive ? startX.value + translationX.value : animatedX.value;
+        const translateX = isActive
+            ? startX.value + translationX.value + (horizontal ? scrollDelta : 0)
+            : animatedX.value;
         const translateY = isActive
-            ? startY.value + translationY.value + scrollDelta
+            ? startY.value + translationY.value + (horizontal ? 0 : scrollDelta)
             : animatedY.value;
 
         return {
@@ -261,17 +391,24 @@ const MasonryItemComponent = ({
 
     // transformを使うスタイル（内側のView）
     const innerStyle = useAnimatedStyle(() => {
-        const isActive = isDragging;
+        const isActive = isDragging || stackIndex >= 0;
 
         let scale: number;
         let opacity: number;
 
-        if (!isMounted.value) {
+        if (hidden) {
+            // 表示はオーバーレイ側に任せる
+            scale = 1;
+            opacity = 0;
+        } else if (!isMounted.value) {
             scale = 1;
             opacity = 1;
         } else if (isActive) {
             scale = withTiming(activeItemScale, { duration: activationAnimationDuration });
             opacity = withTiming(activeItemOpacity, { duration: activationAnimationDuration });
+        } else if (isMergeTarget) {
+            scale = withTiming(MERGE_TARGET_SCALE, { duration: activationAnimationDuration });
+            opacity = withTiming(1, { duration: activationAnimationDuration });
         } else if (isAnyDragging) {
             scale = withTiming(activeItemScale, { duration: activationAnimationDuration });
             opacity = withTiming(activeItemOpacity, { duration: activationAnimationDuration });
@@ -291,23 +428,79 @@ const MasonryItemComponent = ({
         };
     });
 
+    const mergeHighlightAnimatedStyle = useAnimatedStyle(() => ({
+        opacity: mergeProgress.value,
+    }));
+
+    // コンテンツの実際のサイズを計測（内容やフォントスケールが変わるとonLayoutが再度呼ばれる）
+    const handleContentLayout = useCallback((e: LayoutChangeEvent) => {
+        if (!measure) return;
+        onMeasure(id, getMeasuredSize(e.nativeEvent.layout, measure));
+    }, [id, measure, onMeasure]);
+
+    const handleAccessibilityAction = useCallback((e: AccessibilityActionEvent) => {
+        onAccessibilityAction(id, e.nativeEvent.actionName);
+    }, [id, onAccessibilityAction]);
+
     // entering/exitingアニメーション
     const enteringAnimation = itemEntering;
     const exitingAnimation = itemExiting;
 
+    const content = measure === 'width' ? (
+        // 外側のサイズ（推定値）に縛られず、コンテンツ本来の幅で計測する
+        // （行方向の親の中の絶対配置なら、Yogaは幅を親の幅で制限しない）
+        <View style={styles.measureWidthContainer}>
+            <View onLayout={handleContentLayout} style={styles.measureWidth}>
+                {children}
+            </View>
+        </View>
+    ) : measure === 'height' ? (
+        <View onLayout={handleContentLayout}>
+            {children}
+        </View>
+    ) : children;
+
+    const cell = (
+        // 外側: 位置とentering/exitingアニメーション
+        <Animated.View
+            style={wrapperStyle}
+            entering={enteringAnimation}
+            exiting={exitingAnimation}
+            accessible={accessibilityActions ? true : undefined}
+            accessibilityActions={accessibilityActions}
+            onAccessibilityAction={accessibilityActions ? handleAccessibilityAction : undefined}
+        >
+            {/* 内側: transformアニメーション */}
+            <Animated.View style={[styles.appDirection, innerStyle]}>
+                {panGesture ? content : (
+                    <View ref={cellRef} style={styles.handleContainer} collapsable={false}>
+                        {content}
+                    </View>
+                )}
+                {showMergeHighlight && (
+                    <Animated.View
+                        pointerEvents="none"
+                        style={[styles.mergeHighlight, mergeHighlightStyle, mergeHighlightAnimatedStyle]}
+                    />
+                )}
+            </Animated.View>
+        </Animated.View>
+    );
+
+    if (!panGesture) {
+        // ハンドルモードではセルにジェスチャーを付けず、MasonryDragHandleに渡す
+        return (
+            <MasonryDragHandleContext.Provider
+                value={{ createGesture: createPanGesture, cellRef, activationDelay: dragActivationDelay }}
+            >
+                {cell}
+            </MasonryDragHandleContext.Provider>
+        );
+    }
+
     return (
         <GestureDetector gesture={panGesture}>
-            {/* 外側: 位置とentering/exitingアニメーション */}
-            <Animated.View
-                style={wrapperStyle}
-                entering={enteringAnimation}
-                exiting={exitingAnimation}
-            >
-                {/* 内側: transformアニメーション */}
-                <Animated.View style={innerStyle}>
-                    {children}
-                </Animated.View>
-            </Animated.View>
+            {cell}
         </GestureDetector>
     );
 };
@@ -317,7 +510,8 @@ const arePropsEqual = (prev: MasonryItemProps, next: MasonryItemProps) => {
         prev.width !== next.width || prev.height !== next.height) {
         return false;
     }
-    if (prev.isDragging !== next.isDragging) {
+    if (prev.isDragging !== next.isDragging || prev.stackIndex !== next.stackIndex ||
+        prev.hidden !== next.hidden) {
         return false;
     }
     if (prev.isAnyDragging !== next.isAnyDragging) {
@@ -326,7 +520,7 @@ const arePropsEqual = (prev: MasonryItemProps, next: MasonryItemProps) => {
     if (prev.id !== next.id) {
         return false;
     }
-    if (prev.sortEnabled !== next.sortEnabled) {
+    if (prev.sortEnabled !== next.sortEnabled || prev.dragHandleMode !== next.dragHandleMode) {
         return false;
     }
     if (prev.activeItemScale !== next.activeItemScale ||
@@ -336,7 +530,51 @@ const arePropsEqual = (prev: MasonryItemProps, next: MasonryItemProps) => {
     if (prev.isNewItem !== next.isNewItem) {
         return false;
     }
+    if (prev.horizontal !== next.horizontal || prev.contentStart !== next.contentStart) {
+        return false;
+    }
+    if (prev.accessibilityActions !== next.accessibilityActions) {
+        return false;
+    }
+    if (prev.isMergeTarget !== next.isMergeTarget ||
+        prev.showMergeHighlight !== next.showMergeHighlight ||
+        prev.mergeHighlightStyle !== next.mergeHighlightStyle) {
+        return false;
+    }
+    // 計測対象のアイテムは内容の変化でサイズが変わるため再レンダリングする
+    if (prev.measure !== next.measure ||
+        (next.measure && prev.children !== next.children)) {
+        return false;
+    }
     return true;
 };
 
+const styles = StyleSheet.create({
+    // リストのコンテナは常にLTRで配置するため、セルの中身はアプリの向きに戻す
+    appDirection: {
+        direction: I18nManager.isRTL ? 'rtl' : 'ltr',
+    },
+    // 横方向の計測時は親の幅（推定値）に引き伸ばされず、制限もされないようにする
+    measureWidthContainer: {
+        flex: 1,
+        flexDirection: 'row',
+    },
+    measureWidth: {
+        position: 'absolute',
+        top: 0,
+        bottom: 0,
+        start: 0,
+    },
+    handleContainer: {
+        flex: 1,
+    },
+    mergeHighlight: {
+        ...StyleSheet.absoluteFillObject,
+        borderWidth: 2,
+        borderColor: 'rgba(0, 122, 255, 0.8)',
+        borderRadius: 8,
+        backgroundColor: 'rgba(0, 122, 255, 0.1)',
+    },
+});
+
 export default memo(MasonryItemComponent, arePropsEqual);
@@ -0,0 +1,287 @@
+/**
+ * Simple Draggable Masonry - Hit Testing
+ * ドラッグ位置からドロップ先を求める判定と、仮想化の可視判定
+ *
+ * 座標はレイアウトと同じ論理座標（x = カラム方向、y = スクロール方向）
+ */
+
+import { findFirstEntryBelow, queryRange, type SpatialIndex, type SpatialIndexEntry } from './spatialIndex';
+import type { ItemPosition, MasonryItem } from './types';
+
+/**
+ * ドラッグ中心と重なるアイテムのうち、中心が最も近いもののインデックス（なければ-1）
+ * canSwapWithがfalseのアイテム（セクションヘッダーやロックされたアイテム）は対象外
+ * spatialIndex（同じdataとpositionsから作成）を渡すと中心のyと重なるアイテムだけを調べる
+ */
+export function findSwapTarget<T extends MasonryItem>(
+    dragCenterX: number,
+    dragCenterY: number,
+    data: T[],
+    positions: Record<string, ItemPosition>,
+    keyExtractor: (item: T) => string,
+    dragId: string,
+    canSwapWith: (item: T) => boolean = () => true,
+    spatialIndex?: SpatialIndex,
+): number {
+    let closestIndex = -1;
+    let closestDist = Infinity;
+
+    const candidates = spatialIndex ? queryRange(spatialIndex, dragCenterY, dragCenterY) : null;
+    const count = candidates ? candidates.length : data.length;
+
+    for (let n = 0; n < count; n++) {
+        const i = candidates ? candidates[n] : n;
+        const item = data[i];
+        const id = keyExtractor(item);
+        if (id === dragId || !canSwapWith(item)) continue;
+
+        const pos = positions[id];
+        if (!pos) continue;
+
+        const centerX = pos.x + pos.width / 2;
+        const centerY = pos.y + pos.height / 2;
+        const dist = Math.sqrt((dragCenterX - centerX) ** 2 + (dragCenterY - centerY) ** 2);
+
+        const isOverlapping =
+            dragCenterX >= pos.x &&
+            dragCenterX <= pos.x + pos.width &&
+            dragCenterY >= pos.y &&
+            dragCenterY <= pos.y + pos.height;
+
+        if (isOverlapping && dist < closestDist) {
+            closestDist = dist;
+            closestIndex = i;
+        }
+    }
+
+    return closestIndex;
+}
+
+/**
+ * ドラッグ中心がアイテムの中央部分（幅・高さのcenterRatioの範囲）にあれば、そのアイテムのインデックス（なければ-1）
+ * 中央は重ねる（マージ）、周辺は挿入・スワップとして判定を分けるために使う
+ */
+export function findMergeTarget<T extends MasonryItem>(
+    dragCenterX: number,
+    dragCenterY: number,
+    data: T[],
+    positions: Record<string, ItemPosition>,
+    keyExtractor: (item: T) => string,
+    dragId: string,
+    canMergeWith: (item: T) => boolean = () => true,
+    centerRatio = 0.5,
+    spatialIndex?: SpatialIndex,
+): number {
+    const index = findSwapTarget(dragCenterX, dragCenterY, data, positions, keyExtractor, dragId, canMergeWith, spatialIndex);
+    if (index < 0) return -1;
+
+    const pos = positions[keyExtractor(data[index])];
+    const insetX = (pos.width * (1 - centerRatio)) / 2;
+    const insetY = (pos.height * (1 - centerRatio)) / 2;
+    const isInCenter =
+        dragCenterX >= pos.x + insetX &&
+        dragCenterX <= pos.x + pos.width - insetX &&
+        dragCenterY >= pos.y + insetY &&
+        dragCenterY <= pos.y + pos.height - insetY;
+    return isInCenter ? index : -1;
+}
+
+/**
+ * ドラッグアイテムの中心がどのカラムにあるかを判定（spanがあれば覆う範囲）
+ */
+export function findDragColumns(
+    dragCenterX: number,
+    dragWidth: number,
+    numColumns: number,
+    columnWidth: number,
+    columnGap: number
+): { startColumn: number; endColumn: number } {
+    const columnStride = columnWidth + columnGap;
+    const dragSpan = Math.max(1, Math.min(Math.round((dragWidth + columnGap) / columnStride), numColumns));
+    const dragColumn = Math.floor((dragCenterX - (dragSpan - 1) * columnStride / 2) / columnStride);
+    const startColumn = Math.max(0, Math.min(dragColumn, numColumns - dragSpan));
+    return { startColumn, endColumn: startColumn + dragSpan - 1 };
+}
+
+/**
+ * ドラッグ位置から挿入インデックスを計算（直感的なMasonryレイアウト対応）
+ * 
+ * アルゴリズム:
+ * 1. ドラッグアイテムの中心がどのカラムにあるかを判定（spanがあれば覆う範囲）
+ * 2. 同じカラム（範囲が重なるカラム）内のアイテムとのみ入れ替えを行う
+ * 3. Y座標に基づいて挿入位置を決定
+ * isTargetがfalseのアイテム（ロックされたアイテム）は判定から除外する
+ * spatialIndex（同じdataとpositionsから作成）を渡すとカラムごとの二分探索で求める（結果は同じ）
+ */
+export function findInsertIndex<T extends MasonryItem>(
+    dragX: number,
+    dragY: number,
+    dragWidth: number,
+    dragHeight: number,
+    data: T[],
+    positions: Record<string, ItemPosition>,
+    keyExtractor: (item: T) => string,
+    dragId: string,
+    currentInsertIndex: number,
+    numColumns: number,
+    columnWidth: number,
+    columnGap: number,
+    isTarget: (item: T) => boolean = () => true,
+    spatialIndex?: SpatialIndex,
+): number {
+    const dragCenterX = dragX + dragWidth / 2;
+    const dragCenterY = dragY + dragHeight / 2;
+
+    // ドラッグアイテムがどのカラムにいるかを判定（複数カラムにまたがる場合は覆う範囲）
+    const { startColumn, endColumn } = findDragColumns(dragCenterX, dragWidth, numColumns, columnWidth, columnGap);
+
+    if (spatialIndex) {
+        const found = findIndexedInsertIndex(
+            dragCenterY, data, keyExtractor, dragId, startColumn, endColumn, isTarget, spatialIndex
+        );
+        if (found !== null) return found;
+    }
+
+    const filteredData = data.filter(item => keyExtractor(item) !== dragId);
+
+    if (filteredData.length === 0) return 0;
+
+    // 同じカラム内のアイテムのみを抽出（Y座標でソート）
+    const sameColumnItems: { item: T; originalIndex: number; pos: ItemPosition }[] = [];
+
+    for (let i = 0; i < filteredData.length; i++) {
+        const item = filteredData[i];
+        const pos = positions[keyExtractor(item)];
+        if (!pos || !isTarget(item)) continue;
+
+        // レイアウト戦略が割り当てたカラム範囲が重なるかで判定
+        if (pos.column <= endColumn && pos.column + pos.span - 1 >= startColumn) {
+            sameColumnItems.push({ item, originalIndex: i, pos });
+        }
+    }
+
+    // 同じカラムにアイテムがない場合
+    if (sameColumnItems.length === 0) {
+        // 全アイテムのY座標を見て、適切な位置に挿入
+        let insertIndex = 0;
+        for (let i = 0; i < filteredData.length; i++) {
+            const item = filteredData[i];
+            const pos = positions[keyExtractor(item)];
+            if (!pos || !isTarget(item)) continue;
+
+            const itemCenterY = pos.y + pos.height / 2;
+            if (dragCenterY > itemCenterY) {
+                insertIndex = i + 1;
+            }
+        }
+        return insertIndex;
+    }
+
+    // Y座標でソート
+    sameColumnItems.sort((a, b) => a.pos.y - b.pos.y);
+
+    // 同じカラム内でY位置に基づいて挿入位置を決定
+    for (const { originalIndex, pos } of sameColumnItems) {
+        const threshold = pos.y + pos.height * 1;
+        if (dragCenterY < threshold) {
+            return originalIndex;
+        }
+    }
+
+    // 全てより下にいる場合は最後のアイテムの後
+    const lastItem = sameColumnItems[sameColumnItems.length - 1];
+    return lastItem.originalIndex + 1;
+}
+
+/**
+ * findInsertIndexの索引版。同じカラムに対象アイテムがなければnull（全件走査にフォールバック）
+ * カラム内のエントリは（上端, データ順）で並んでいるので、各カラムの最初/最後の候補を比べればよい
+ */
+function findIndexedInsertIndex<T extends MasonryItem>(
+    dragCenterY: number,
+    data: T[],
+    keyExtractor: (item: T) => string,
+    dragId: string,
+    startColumn: number,
+    endColumn: number,
+    isTarget: (item: T) => boolean,
+    spatialIndex: SpatialIndex,
+): number | null {
+    const dragIndex = spatialIndex.indexByKey.get(dragId) ?? -1;
+    const isCandidate = (entry: SpatialIndexEntry) => entry.index !== dragIndex && isTarget(data[entry.index]);
+    const isBefore = (a: SpatialIndexEntry, b: SpatialIndexEntry) =>
+        a.top < b.top || (a.top === b.top && a.index < b.index);
+    // ドラッグ中のアイテムを除いたデータでのインデックスに変換
+    const toFilteredIndex = (index: number) => (dragIndex >= 0 && index > dragIndex ? index - 1 : index);
+
+    let below: SpatialIndexEntry | null = null;
+    let last: SpatialIndexEntry | null = null;
+    const lastColumn = Math.min(endColumn, spatialIndex.columns.length - 1);
+
+    for (let c = Math.max(0, startColumn); c <= lastColumn; c++) {
+        const entries = spatialIndex.columns[c];
+
+        for (let i = entries.length - 1; i >= 0; i--) {
+            if (isCandidate(entries[i])) {
+                if (!last || isBefore(last, entries[i])) last = entries[i];
+                break;
+            }
+        }
+
+        for (let i = findFirstEntryBelow(spatialIndex.maxBottoms[c], dragCenterY); i < entries.length; i++) {
+            const entry = entries[i];
+            if (below && !isBefore(entry, below)) break;
+            if (entry.bottom > dragCenterY && isCandidate(entry)) {
+                below = entry;
+                break;
+            }
+        }
+    }
+
+    if (!last) return null;
+    if (below) return toFilteredIndex(below.index);
+    return toFilteredIndex(last.index) + 1;
+}
+
+
+/**
+ * 可視範囲内のアイテムをフィルタリング
+ * spatialIndex（同じdataとpositionsから作成）を渡すと可視範囲だけを二分探索で取り出す
+ */
+export function filterVisibleItems<T extends MasonryItem>(
+    data: T[],
+    positions: Record<string, ItemPosition>,
+    scrollY: number,
+    viewportHeight: number,
+    overscanPixels: number,
+    keyExtractor: (item: T) => string,
+    activeDragId: string | null,
+    spatialIndex?: SpatialIndex,
+): T[] {
+    const visibleTop = scrollY - overscanPixels;
+    const visibleBottom = scrollY + viewportHeight + overscanPixels;
+
+    if (spatialIndex) {
+        const indices = queryRange(spatialIndex, visibleTop, visibleBottom);
+        const dragIndex = activeDragId ? spatialIndex.indexByKey.get(activeDragId) : undefined;
+        if (dragIndex !== undefined && !indices.includes(dragIndex)) {
+            indices.push(dragIndex);
+            indices.sort((a, b) => a - b);
+        }
+        return indices.map(i => data[i]);
+    }
+
+    return data.filter(item => {
+        if (activeDragId && keyExtractor(item) === activeDragId) {
+            return true;
+        }
+
+        const pos = positions[keyExtractor(item)];
+        if (!pos) return false;
+
+        const itemTop = pos.y;
+        const itemBottom = pos.y + pos.height;
+
+        return itemBottom >= visibleTop && itemTop <= visibleBottom;
+    });
+}
@@ -0,0 +1,69 @@
+/**
+ * react-native-draggable-masonry/core
+ * Headless layout and reorder logic. No React Native or Reanimated imports,
+ * so it can be used for server-side previews and tests.
+ */
+
+// Layout
+export {
+    anchoredLayout,
+    calculateLayout,
+    createLayoutCache,
+    getIndexInColumn,
+    gridLayout,
+    LAYOUT_STRATEGIES,
+    mirrorPosition,
+    resolveColumns,
+    resolveItemHeight,
+    resolveItemSpan,
+    resolveItemWidth,
+    resolveLayoutStrategy,
+    roundRobinLayout,
+    shortestColumnLayout,
+    transposePosition,
+} from './layout';
+export type { LayoutCache, LayoutParams, LayoutState } from './layout';
+
+// Hit testing & virtualization
+export { filterVisibleItems, findDragColumns, findInsertIndex, findMergeTarget, findSwapTarget } from './hitTest';
+export { buildSpatialIndex, findFirstEntryBelow, queryRange } from './spatialIndex';
+export type { SpatialIndex, SpatialIndexEntry } from './spatialIndex';
+
+// Reorder
+export {
+    createInsertIndexCheck,
+    getMoveTarget,
+    getSwapTarget,
+    keepLockedIndices,
+    moveItem,
+    moveItems,
+    replayOrder,
+    swapItems,
+} from './reorder';
+export type { MoveTarget } from './reorder';
+
+// Sections
+export {
+    flattenSections,
+    isSectionHeader,
+    locateInSections,
+    stripSectionHeaders,
+    unflattenSections,
+} from './sections';
+export type { SectionEntry, SectionHeaderItem, SectionLocation } from './sections';
+
+// Types
+export type {
+    BuiltInLayoutStrategy,
+    ColumnBreakpoints,
+    ColumnLayout,
+    ColumnsConfig,
+    ItemPosition,
+    LayoutContext,
+    LayoutStrategy,
+    LayoutStrategyFunction,
+    MasonryItem,
+    MasonrySection,
+    MinColumnWidthRule,
+    PositionedItem,
+} from './types';
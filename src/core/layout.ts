@@ -0,0 +1,603 @@
+/**
+ * Simple Draggable Masonry - Layout Strategies
+ * React Native に依存しない純粋なレイアウト計算
+ */
+
+import type {
+    BuiltInLayoutStrategy,
+    ColumnLayout,
+    ColumnsConfig,
+    ItemPosition,
+    LayoutContext,
+    LayoutStrategy,
+    LayoutStrategyFunction,
+    MasonryItem,
+} from './types';
+
+/**
+ * span分のカラム幅（間のcolumnGapを含む）
+ */
+function spanWidth(span: number, columnWidth: number, columnGap: number): number {
+    return span * columnWidth + (span - 1) * columnGap;
+}
+
+/**
+ * 指定範囲のカラムのうち最も低い位置（アイテムの開始Y座標）
+ */
+function spanTop(columnHeights: number[], column: number, span: number): number {
+    let top = columnHeights[column];
+    for (let c = column + 1; c < column + span; c++) {
+        top = Math.max(top, columnHeights[c]);
+    }
+    return top;
+}
+
+/**
+ * span分のカラムを置いたときに開始位置が最も高くなる先頭カラム
+ */
+function shortestSpanStart(columnHeights: number[], span: number): number {
+    let minTop = spanTop(columnHeights, 0, span);
+    let minColumn = 0;
+    for (let c = 1; c + span <= columnHeights.length; c++) {
+        const top = spanTop(columnHeights, c, span);
+        if (top < minTop) {
+            minTop = top;
+            minColumn = c;
+        }
+    }
+    return minColumn;
+}
+
+/**
+ * 組み込み戦略の途中状態（アイテムを1つ置くごとに更新される）
+ * 差分計算のため、各アイテムを置く直前の状態をキャッシュに保存する
+ */
+export interface LayoutState {
+    /** 各カラムで次のアイテムを置けるY座標 */
+    heights: number[];
+    /** roundRobin / grid で次に置くカラム */
+    column: number;
+    /** grid の現在の行の開始Y座標と高さ */
+    rowTop: number;
+    rowHeight: number;
+}
+
+function createLayoutState(columns: number): LayoutState {
+    return { heights: new Array(columns).fill(0), column: 0, rowTop: 0, rowHeight: 0 };
+}
+
+function cloneLayoutState(state: LayoutState): LayoutState {
+    return { ...state, heights: [...state.heights] };
+}
+
+function isSameLayoutState(a: LayoutState, b: LayoutState): boolean {
+    if (a.column !== b.column || a.rowTop !== b.rowTop || a.rowHeight !== b.rowHeight) return false;
+    if (a.heights.length !== b.heights.length) return false;
+    return a.heights.every((height, c) => height === b.heights[c]);
+}
+
+/**
+ * 1アイテムずつ配置する組み込み戦略
+ * 途中から再開できるため、変更のあったインデックス以降だけを再計算できる
+ */
+interface LayoutStepper {
+    /** stateを更新し、index番目のアイテムの位置を返す */
+    place<T extends MasonryItem>(item: T, index: number, state: LayoutState, ctx: LayoutContext<T>): ItemPosition;
+    /** 全アイテムを置いた後の全体の高さ */
+    totalHeight<T extends MasonryItem>(state: LayoutState, count: number, ctx: LayoutContext<T>): number;
+    /** 以降のアイテムが置かれうる最も上のY座標 */
+    nextTop(state: LayoutState): number;
+}
+
+/**
+ * 指定カラムの範囲に積み、各カラムの高さを更新
+ */
+function stackInColumns<T extends MasonryItem>(
+    state: LayoutState,
+    ctx: LayoutContext<T>,
+    column: number,
+    span: number,
+    width: number,
+    height: number
+): ItemPosition {
+    const y = spanTop(state.heights, column, span);
+    for (let c = column; c < column + span; c++) {
+        state.heights[c] = y + height + ctx.rowGap;
+    }
+    return { x: column * (ctx.columnWidth + ctx.columnGap), y, width, height, column, span };
+}
+
+function itemSize<T extends MasonryItem>(item: T, ctx: LayoutContext<T>) {
+    const span = ctx.getItemSpan(item);
+    const width = spanWidth(span, ctx.columnWidth, ctx.columnGap);
+    return { span, width, height: ctx.getItemHeight(item, width) };
+}
+
+const tallestColumn = (state: LayoutState) => Math.max(...state.heights, 0);
+const shortestColumn = (state: LayoutState) => Math.min(...state.heights);
+
+const LAYOUT_STEPPERS: Record<BuiltInLayoutStrategy, LayoutStepper> = {
+    shortestColumn: {
+        place(item, _index, state, ctx) {
+            const { span, width, height } = itemSize(item, ctx);
+            return stackInColumns(state, ctx, shortestSpanStart(state.heights, span), span, width, height);
+        },
+        totalHeight: tallestColumn,
+        nextTop: shortestColumn,
+    },
+    roundRobin: {
+        place(item, _index, state, ctx) {
+            const { span, width, height } = itemSize(item, ctx);
+            if (state.column + span > ctx.columns) {
+                state.column = 0;
+            }
+            const position = stackInColumns(state, ctx, state.column, span, width, height);
+            state.column = (state.column + span) % ctx.columns;
+            return position;
+        },
+        totalHeight: tallestColumn,
+        nextTop: shortestColumn,
+    },
+    grid: {
+        place(item, index, state, ctx) {
+            const { span, width, height } = itemSize(item, ctx);
+            if (state.column + span > ctx.columns || (state.column === 0 && index > 0)) {
+                state.rowTop += state.rowHeight + ctx.rowGap;
+                state.rowHeight = 0;
+                state.column = 0;
+            }
+            const position = {
+                x: state.column * (ctx.columnWidth + ctx.columnGap),
+                y: state.rowTop,
+                width,
+                height,
+                column: state.column,
+                span,
+            };
+            state.rowHeight = Math.max(state.rowHeight, height);
+            state.column = (state.column + span) % ctx.columns;
+            return position;
+        },
+        // 他の戦略と同様、最後の行の後にもrowGapを含める
+        totalHeight: (state, count, ctx) => (count > 0 ? state.rowTop + state.rowHeight + ctx.rowGap : 0),
+        nextTop: state => state.rowTop,
+    },
+    anchored: {
+        place(item, _index, state, ctx) {
+            const { span, width, height } = itemSize(item, ctx);
+            const anchor = ctx.getItemColumn(item);
+            const column = anchor != null && Number.isFinite(anchor)
+                ? Math.max(0, Math.min(Math.round(anchor), ctx.columns - span))
+                : shortestSpanStart(state.heights, span);
+            return stackInColumns(state, ctx, column, span, width, height);
+        },
+        totalHeight: tallestColumn,
+        nextTop: shortestColumn,
+    },
+};
+
+function runLayoutStepper<T extends MasonryItem>(
+    stepper: LayoutStepper,
+    data: T[],
+    ctx: LayoutContext<T>
+): ColumnLayout {
+    const state = createLayoutState(ctx.columns);
+    const positions: Record<string, ItemPosition> = {};
+    data.forEach((item, index) => {
+        positions[ctx.keyExtractor(item)] = stepper.place(item, index, state, ctx);
+    });
+    return { positions, totalHeight: stepper.totalHeight(state, data.length, ctx) };
+}
+
+/**
+ * 最も低いカラムに配置（複数カラムにまたがる場合は開始位置が最も高くなる範囲）
+ */
+export function shortestColumnLayout<T extends MasonryItem>(
+    data: T[],
+    ctx: LayoutContext<T>
+): ColumnLayout {
+    return runLayoutStepper(LAYOUT_STEPPERS.shortestColumn, data, ctx);
+}
+
+/**
+ * インデックス順にカラムへ配置（i % columns）
+ * 複数カラムにまたがるアイテムが行末に収まらない場合は次の行の先頭へ
+ */
+export function roundRobinLayout<T extends MasonryItem>(
+    data: T[],
+    ctx: LayoutContext<T>
+): ColumnLayout {
+    return runLayoutStepper(LAYOUT_STEPPERS.roundRobin, data, ctx);
+}
+
+/**
+ * 行単位で左から配置（各行は前の行の最も高いアイテムの下から開始）
+ * 複数カラムにまたがるアイテムが行に収まらない場合は次の行へ
+ */
+export function gridLayout<T extends MasonryItem>(
+    data: T[],
+    ctx: LayoutContext<T>
+): ColumnLayout {
+    return runLayoutStepper(LAYOUT_STEPPERS.grid, data, ctx);
+}
+
+/**
+ * アイテムが指定したカラム（getItemColumn）に配置し、カラム内はデータ順に積む
+ * カラム未指定のアイテムは最も低いカラムへ。カラム数を超える指定は右端に丸める
+ */
+export function anchoredLayout<T extends MasonryItem>(
+    data: T[],
+    ctx: LayoutContext<T>
+): ColumnLayout {
+    return runLayoutStepper(LAYOUT_STEPPERS.anchored, data, ctx);
+}
+
+export const LAYOUT_STRATEGIES = {
+    shortestColumn: shortestColumnLayout,
+    roundRobin: roundRobinLayout,
+    grid: gridLayout,
+    anchored: anchoredLayout,
+} satisfies Record<BuiltInLayoutStrategy, unknown>;
+
+/**
+ * 戦略名またはカスタム関数から実際のレイアウト関数を取得
+ */
+export function resolveLayoutStrategy<T extends MasonryItem>(
+    strategy: LayoutStrategy<T>
+): LayoutStrategyFunction<T> {
+    if (typeof strategy === 'function') {
+        return strategy;
+    }
+    return LAYOUT_STRATEGIES[strategy] ?? LAYOUT_STRATEGIES.shortestColumn;
+}
+
+export interface LayoutParams<T extends MasonryItem> {
+    columns: number;
+    containerWidth: number;
+    rowGap: number;
+    columnGap: number;
+    keyExtractor: (item: T) => string;
+    getItemSpan?: (item: T) => number;
+    /** Resolved height of an item for the given cell width. Defaults to `resolveItemHeight` */
+    getItemHeight?: (item: T, width: number) => number;
+    /** Column an item is anchored to. Defaults to `item.column` */
+    getItemColumn?: (item: T) => number | undefined;
+}
+
+/**
+ * 幅から決まる高さを解決（getItemHeight > item.height > item.aspectRatio）
+ * いずれもなければundefined（計測が必要）
+ */
+export function resolveItemHeight<T extends MasonryItem>(
+    item: T,
+    width: number,
+    getItemHeight?: (item: T, columnWidth: number) => number | undefined
+): number | undefined {
+    const height = getItemHeight?.(item, width) ?? item.height;
+    if (height != null) return height;
+    if (item.aspectRatio != null && item.aspectRatio > 0) {
+        return width / item.aspectRatio;
+    }
+    return undefined;
+}
+
+/**
+ * 横方向モードで行の高さから決まる幅を解決（item.width > item.aspectRatio）
+ * いずれもなければundefined（計測が必要）
+ */
+export function resolveItemWidth<T extends MasonryItem>(item: T, height: number): number | undefined {
+    if (item.width != null) return item.width;
+    if (item.aspectRatio != null && item.aspectRatio > 0) {
+        return height * item.aspectRatio;
+    }
+    return undefined;
+}
+
+/**
+ * 計測したセルのレイアウトから、レイアウトに使うサイズを取り出す
+ * 横方向モードで幅が未指定のアイテムは幅、それ以外は高さ
+ */
+export function getMeasuredSize(layout: { width: number; height: number }, measure: 'width' | 'height'): number {
+    return measure === 'width' ? layout.width : layout.height;
+}
+
+/**
+ * カラム設定とコンテナ幅から実際のカラム数を解決
+ * - 数値: そのまま
+ * - minColumnWidth: 各カラムが最小幅以上になる最大数（maxColumnsで上限）
+ * - ブレークポイント: コンテナ幅以下で最大のブレークポイントの値（該当なしは最小のブレークポイント）
+ */
+export function resolveColumns(
+    columns: ColumnsConfig,
+    containerWidth: number,
+    columnGap: number
+): number {
+    if (typeof columns === 'number') {
+        return Math.max(1, Math.floor(columns));
+    }
+
+    if ('minColumnWidth' in columns) {
+        const { minColumnWidth, maxColumns = Infinity } = columns;
+        const fit = Math.floor((containerWidth + columnGap) / (minColumnWidth + columnGap));
+        return Math.max(1, Math.min(fit, maxColumns));
+    }
+
+    const breakpoints = Object.keys(columns)
+        .map(Number)
+        .filter(Number.isFinite)
+        .sort((a, b) => a - b);
+    if (breakpoints.length === 0) return 1;
+
+    let resolved = columns[breakpoints[0]];
+    for (const minWidth of breakpoints) {
+        if (containerWidth >= minWidth) {
+            resolved = columns[minWidth];
+        }
+    }
+    return Math.max(1, Math.floor(resolved));
+}
+
+/**
+ * アイテムのspanを解決（getItemSpan > item.span > 1、1..columnsに丸める）
+ */
+export function resolveItemSpan<T extends MasonryItem>(
+    item: T,
+    columns: number,
+    getItemSpan?: (item: T) => number
+): number {
+    const span = Math.round(getItemSpan?.(item) ?? item.span ?? 1);
+    if (!Number.isFinite(span)) return 1;
+    return Math.max(1, Math.min(span, columns));
+}
+
+/**
+ * calculateLayoutの差分計算用キャッシュ（リストごとに1つ作成して使い回す）
+ */
+export interface LayoutCache<T extends MasonryItem> {
+    /** 前回の計算に使った戦略とパラメータ（変わった場合は全体を再計算） */
+    strategy: LayoutStrategy<T> | null;
+    params: LayoutParams<T> | null;
+    items: T[];
+    keys: string[];
+    /**
+     * 正確に計算した先頭のアイテム数（visibleEndより先を前回の位置のままにした場合はそこまで）
+     * states[i] = i番目のアイテムを置く直前の状態（i = 0..exactCount）
+     */
+    exactCount: number;
+    states: LayoutState[];
+    /** exactCount以降のアイテムが（前回の位置でも正確な位置でも）置かれうる最も上のY座標 */
+    approximateTop: number;
+    result: ColumnLayout;
+}
+
+export function createLayoutCache<T extends MasonryItem>(): LayoutCache<T> {
+    return {
+        strategy: null,
+        params: null,
+        items: [],
+        keys: [],
+        exactCount: 0,
+        states: [],
+        approximateTop: Infinity,
+        result: { positions: {}, totalHeight: 0 },
+    };
+}
+
+function isSameLayoutParams<T extends MasonryItem>(a: LayoutParams<T> | null, b: LayoutParams<T>): boolean {
+    return a !== null &&
+        a.columns === b.columns &&
+        a.containerWidth === b.containerWidth &&
+        a.rowGap === b.rowGap &&
+        a.columnGap === b.columnGap &&
+        a.keyExtractor === b.keyExtractor &&
+        a.getItemSpan === b.getItemSpan &&
+        a.getItemHeight === b.getItemHeight &&
+        a.getItemColumn === b.getItemColumn;
+}
+
+/**
+ * 前回の結果を再利用してレイアウトを更新
+ * - 先頭から変わっていないアイテムの位置はそのまま
+ * - 最初に変わったインデックスから、保存した途中状態で再開
+ * - 末尾の変わっていない範囲で途中状態が前回と一致したら、以降は前回の位置を使う
+ * - visibleEndがあれば、末尾の変わっていない範囲で今回も前回もvisibleEndより先にしか置かれなくなった時点で、
+ *   以降は前回の位置のままにする（次にvisibleEndなしで呼ばれたときにそこから計算する）
+ */
+function updateLayout<T extends MasonryItem>(
+    stepper: LayoutStepper,
+    data: T[],
+    strategy: LayoutStrategy<T>,
+    params: LayoutParams<T>,
+    ctx: LayoutContext<T>,
+    cache: LayoutCache<T>,
+    visibleEnd: number | undefined
+): ColumnLayout {
+    const reusable = cache.strategy === strategy && isSameLayoutParams(cache.params, params);
+    const previousItems = reusable ? cache.items : [];
+    const previousExact = reusable ? cache.exactCount : 0;
+    const count = data.length;
+    const previousCount = previousItems.length;
+    // 前回の位置のままのアイテムを今回も使えるか（前回省いた範囲が今回も表示範囲の外）
+    const reusesApproximate = previousExact === previousCount ||
+        (visibleEnd !== undefined && cache.approximateTop > visibleEnd);
+
+    // 先頭から変わっていない範囲
+    let unchanged = 0;
+    while (unchanged < Math.min(count, previousCount) && data[unchanged] === previousItems[unchanged]) {
+        unchanged++;
+    }
+    if (reusable && unchanged === count && count === previousCount && reusesApproximate) {
+        return cache.result;
+    }
+    // 前回省いた範囲は途中状態がないので、そこから計算する
+    const start = Math.min(unchanged, previousExact);
+
+    // 末尾から変わっていない範囲（前回のインデックス = 今回 + offset）
+    const offset = previousCount - count;
+    let suffixStart = count;
+    while (
+        suffixStart > start &&
+        suffixStart - 1 + offset >= 0 &&
+        data[suffixStart - 1] === previousItems[suffixStart - 1 + offset]
+    ) {
+        suffixStart--;
+    }
+
+    const keys: string[] = new Array(count);
+    const states: LayoutState[] = [];
+    const positions: Record<string, ItemPosition> = {};
+    for (let i = 0; i < start; i++) {
+        keys[i] = cache.keys[i];
+        states.push(cache.states[i]);
+        positions[keys[i]] = cache.result.positions[keys[i]];
+    }
+
+    const state = start > 0 ? cloneLayoutState(cache.states[start]) : createLayoutState(ctx.columns);
+    let exactCount = count;
+    let approximateTop = Infinity;
+    let converged = false;
+    let index = start;
+    for (; index < count; index++) {
+        if (index > 0 && index >= suffixStart) {
+            const previousIndex = index + offset;
+            if (reusesApproximate && previousIndex <= previousExact && isSameLayoutState(state, cache.states[previousIndex])) {
+                converged = true;
+                exactCount = previousExact - offset;
+                approximateTop = cache.approximateTop;
+                break;
+            }
+            // 今回も前回もvisibleEndより先にしか置かれなくなったら、以降は前回の位置のままにする
+            if (visibleEnd !== undefined) {
+                const top = Math.min(
+                    stepper.nextTop(state),
+                    previousIndex < previousExact ? stepper.nextTop(cache.states[previousIndex]) : Infinity,
+                    cache.approximateTop
+                );
+                if (top > visibleEnd) {
+                    exactCount = index;
+                    approximateTop = top;
+                    break;
+                }
+            }
+        }
+        states.push(cloneLayoutState(state));
+        keys[index] = ctx.keyExtractor(data[index]);
+        positions[keys[index]] = stepper.place(data[index], index, state, ctx);
+    }
+
+    let totalHeight: number;
+    if (index < count) {
+        if (converged) {
+            // 以降は前回と同じ位置になる
+            for (let i = index; i <= exactCount; i++) {
+                states.push(cache.states[i + offset]);
+            }
+        } else {
+            states.push(cloneLayoutState(state));
+        }
+        for (; index < count; index++) {
+            keys[index] = cache.keys[index + offset];
+            positions[keys[index]] = cache.result.positions[keys[index]];
+        }
+        totalHeight = cache.result.totalHeight;
+    } else {
+        states.push(cloneLayoutState(state));
+        totalHeight = stepper.totalHeight(state, count, ctx);
+    }
+
+    cache.strategy = strategy;
+    cache.params = params;
+    cache.items = data.slice();
+    cache.keys = keys;
+    cache.exactCount = exactCount;
+    cache.states = states;
+    cache.approximateTop = approximateTop;
+    cache.result = { positions, totalHeight };
+    return cache.result;
+}
+
+/**
+ * 1次元配列からレイアウトを計算
+ * cacheを渡すと組み込み戦略は前回の結果から変更のあった部分だけを再計算する
+ * （カスタム戦略は常に全体を計算）
+ * cacheと一緒にvisibleEnd（スクロール方向の座標）を渡すと、それより先にしか置かれないアイテムは
+ * 前回の位置のままにする（ドラッグ中の更新用。visibleEndなしで呼ぶと残りも計算する）
+ */
+export function calculateLayout<T extends MasonryItem>(
+    data: T[],
+    strategy: LayoutStrategy<T>,
+    params: LayoutParams<T>,
+    cache?: LayoutCache<T>,
+    visibleEnd?: number
+): ColumnLayout {
+    const {
+        columns,
+        containerWidth,
+        rowGap,
+        columnGap,
+        keyExtractor,
+        getItemSpan,
+        getItemHeight = (item, width) => resolveItemHeight(item, width) ?? 0,
+        getItemColumn = (item) => item.column,
+    } = params;
+    const columnWidth = (containerWidth - (columns - 1) * columnGap) / columns;
+    const ctx: LayoutContext<T> = {
+        columns,
+        containerWidth,
+        columnWidth,
+        rowGap,
+        columnGap,
+        keyExtractor,
+        getItemSpan: (item) => resolveItemSpan(item, columns, getItemSpan),
+        getItemHeight,
+        getItemColumn,
+    };
+
+    if (cache && typeof strategy !== 'function') {
+        const stepper = LAYOUT_STEPPERS[strategy] ?? LAYOUT_STEPPERS.shortestColumn;
+        return updateLayout(stepper, data, strategy, params, ctx, cache, visibleEnd);
+    }
+    return resolveLayoutStrategy(strategy)(data, ctx);
+}
+
+/**
+ * 右から左（RTL）のカラム順にするため、位置をコンテナ幅で左右反転（逆変換も同じ）
+ */
+export function mirrorPosition(pos: ItemPosition, containerWidth: number): ItemPosition {
+    return { ...pos, x: containerWidth - pos.x - pos.width };
+}
+
+/**
+ * 論理座標（カラム方向×スクロール方向）の位置を横方向モードの画面座標に変換
+ * x↔y、width↔heightを入れ替える（逆変換も同じ）
+ */
+export function transposePosition(pos: ItemPosition): ItemPosition {
+    return { ...pos, x: pos.y, y: pos.x, width: pos.height, height: pos.width };
+}
+
+/**
+ * アイテムの開始カラム内での順番（データ順でそのカラムから始まるアイテムを数える）
+ * isBoundaryを指定すると境界（セクションヘッダー）ごとに数え直す
+ */
+export function getIndexInColumn<T extends MasonryItem>(
+    data: T[],
+    positions: Record<string, ItemPosition>,
+    keyExtractor: (item: T) => string,
+    key: string,
+    isBoundary: (item: T) => boolean = () => false
+): number {
+    const column = positions[key]?.column;
+    if (column === undefined) return -1;
+
+    let index = 0;
+    for (const item of data) {
+        const id = keyExtractor(item);
+        if (id === key) return index;
+        if (isBoundary(item)) {
+            index = 0;
+        } else if (positions[id]?.column === column) {
+            index++;
+        }
+    }
+    return -1;
+}
@@ -0,0 +1,252 @@
+/**
+ * Simple Draggable Masonry - Reorder
+ * 固定（ロック）アイテムを考慮した並び替えユーティリティ
+ *
+ * ロックされたアイテムは配列内のインデックスを維持し、
+ * それ以外のアイテムは空いているスロットを順に埋める
+ */
+
+const never = () => false;
+
+/**
+ * 境界アイテム（セクションヘッダー）で配列を区切る
+ * 各区間は直前の境界アイテム（先頭区間はnull）で識別する
+ */
+function splitSegments<T>(data: T[], isBoundary: (item: T) => boolean): { boundary: T | null; items: T[] }[] {
+    const segments: { boundary: T | null; items: T[] }[] = [{ boundary: null, items: [] }];
+    for (const item of data) {
+        if (isBoundary(item)) {
+            segments.push({ boundary: item, items: [] });
+        } else {
+            segments[segments.length - 1].items.push(item);
+        }
+    }
+    return segments;
+}
+
+/**
+ * 1区間内でロックされたアイテムを元のインデックスに戻す
+ * 区間が短くなってインデックスが範囲外になった場合は末尾に置く
+ */
+function restoreSegment<T>(original: T[], next: T[], isLocked: (item: T) => boolean): T[] {
+    const lockedAt = new Map<number, T>();
+    original.forEach((item, index) => {
+        if (isLocked(item) && next.includes(item)) {
+            lockedAt.set(index, item);
+        }
+    });
+    if (lockedAt.size === 0) return next;
+
+    const locked = new Set(lockedAt.values());
+    const rest = next.filter(item => !locked.has(item));
+    const result: T[] = [];
+    let restIndex = 0;
+    for (let i = 0; result.length < next.length; i++) {
+        const lockedItem = lockedAt.get(i);
+        if (lockedItem !== undefined) {
+            result.push(lockedItem);
+            lockedAt.delete(i);
+        } else if (restIndex < rest.length) {
+            result.push(rest[restIndex++]);
+        } else {
+            // 残りはロックされたアイテムのみ
+            result.push(...lockedAt.values());
+        }
+    }
+    return result;
+}
+
+/**
+ * 並び替え後の配列で、ロックされたアイテムを元のインデックスに戻す
+ * isBoundaryを指定すると境界（セクションヘッダー）で区切った区間内のインデックスを維持する
+ */
+export function keepLockedIndices<T>(
+    original: T[],
+    next: T[],
+    isLocked: (item: T) => boolean,
+    isBoundary: (item: T) => boolean = never
+): T[] {
+    const originalSegments = new Map(
+        splitSegments(original, isBoundary).map(segment => [segment.boundary, segment.items])
+    );
+    const result: T[] = [];
+    for (const { boundary, items } of splitSegments(next, isBoundary)) {
+        if (boundary !== null) result.push(boundary);
+        result.push(...restoreSegment(originalSegments.get(boundary) ?? [], items, isLocked));
+    }
+    return result;
+}
+
+/**
+ * fromIndexのアイテムを移動し、結果の配列でtoIndexに来るように並び替える
+ * ロックされたアイテムは動かさない（ロックされたアイテム自体は移動できない）
+ */
+export function moveItem<T>(
+    data: T[],
+    fromIndex: number,
+    toIndex: number,
+    isLocked: (item: T) => boolean = never,
+    isBoundary: (item: T) => boolean = never
+): T[] {
+    if (fromIndex < 0 || fromIndex >= data.length) return data;
+    const moving = data[fromIndex];
+    if (isLocked(moving)) return data;
+
+    const result = data.filter((_, index) => index !== fromIndex);
+    result.splice(Math.max(0, Math.min(toIndex, result.length)), 0, moving);
+    return keepLockedIndices(data, result, isLocked, isBoundary);
+}
+
+/**
+ * 複数のアイテムを元の順序のまま、toIndexから連続するように移動する
+ * toIndexは移動するアイテムを除いた配列でのインデックス（ロックされたアイテムは移動しない）
+ */
+export function moveItems<T>(
+    data: T[],
+    indices: number[],
+    toIndex: number,
+    isLocked: (item: T) => boolean = never,
+    isBoundary: (item: T) => boolean = never
+): T[] {
+    const moving = new Set(indices.filter(index => index >= 0 && index < data.length && !isLocked(data[index])));
+    if (moving.size === 0) return data;
+    const movingItems = data.filter((_, index) => moving.has(index));
+    const result = data.filter((_, index) => !moving.has(index));
+    result.splice(Math.max(0, Math.min(toIndex, result.length)), 0, ...movingItems);
+    return keepLockedIndices(data, result, isLocked, isBoundary);
+}
+
+/**
+ * 2つのアイテムを入れ替える（どちらかがロックされていれば何もしない）
+ */
+export function swapItems<T>(
+    data: T[],
+    indexA: number,
+    indexB: number,
+    isLocked: (item: T) => boolean = never
+): T[] {
+    const a = data[indexA];
+    const b = data[indexB];
+    if (a === undefined || b === undefined || indexA === indexB) return data;
+    if (isLocked(a) || isLocked(b)) return data;
+
+    const result = [...data];
+    [result[indexA], result[indexB]] = [b, a];
+    return result;
+}
+
+/**
+ * 移動先（canMoveToで判定する位置）
+ */
+export interface MoveTarget<T> {
+    /** 区間（セクション）内のインデックス */
+    index: number;
+    /** 区間の先頭の境界アイテム（セクションヘッダー。先頭区間ならnull） */
+    boundary: T | null;
+    /** 移動先の直前・直後のアイテム（同じ区間内のみ） */
+    before?: T;
+    after?: T;
+}
+
+/**
+ * 移動するアイテムを除いた配列のtoIndexに挿入したときの移動先
+ * 最初の境界アイテムより前には移動できないのでnullを返す
+ */
+export function getMoveTarget<T>(
+    withoutMoving: T[],
+    toIndex: number,
+    isBoundary: (item: T) => boolean = never
+): MoveTarget<T> | null {
+    let start = toIndex;
+    while (start > 0 && !isBoundary(withoutMoving[start - 1])) {
+        start--;
+    }
+    if (start === 0 && withoutMoving.length > 0 && isBoundary(withoutMoving[0])) return null;
+
+    const before = withoutMoving[toIndex - 1];
+    const after = withoutMoving[toIndex];
+    return {
+        index: toIndex - start,
+        boundary: start > 0 ? withoutMoving[start - 1] : null,
+        before: toIndex > start ? before : undefined,
+        after: after !== undefined && !isBoundary(after) ? after : undefined,
+    };
+}
+
+/**
+ * スワップモードでtargetIndexのアイテムと入れ替えたときの移動先
+ */
+export function getSwapTarget<T>(
+    data: T[],
+    dragIndex: number,
+    targetIndex: number,
+    isLocked: (item: T) => boolean = never,
+    isBoundary: (item: T) => boolean = never
+): MoveTarget<T> | null {
+    const swapped = swapItems(data, dragIndex, targetIndex, isLocked);
+    const withoutMoving = swapped.filter((_, index) => index !== targetIndex);
+    return getMoveTarget(withoutMoving, targetIndex, isBoundary);
+}
+
+/**
+ * 挿入モードのドラッグで、移動するアイテムを除いた配列の挿入位置（0〜length）に移動できるかを返す関数を作る
+ * 指の下の位置だけを必要になったときに判定し、結果はドラッグ中（この関数の間）覚えておく
+ * 元の位置（fromIndex）は常に移動できる
+ */
+export function createInsertIndexCheck<T>(
+    withoutMoving: T[],
+    fromIndex: number,
+    canMoveTo: (target: MoveTarget<T>) => boolean,
+    isBoundary: (item: T) => boolean = never
+): (index: number) => boolean {
+    const checked = new Map<number, boolean>();
+    return (index: number) => {
+        if (index === fromIndex) return true;
+        if (index < 0 || index > withoutMoving.length) return false;
+        let allowed = checked.get(index);
+        if (allowed === undefined) {
+            const target = getMoveTarget(withoutMoving, index, isBoundary);
+            allowed = target !== null && canMoveTo(target);
+            checked.set(index, allowed);
+        }
+        return allowed;
+    };
+}
+
+/**
+ * 記録した並び順（key）を別の並び順にする（undo/redoで並び替えを再生する）
+ * 記録後に追加されたアイテム（ページの読み込みなど）は今の位置に残し、
+ * 記録したアイテムだけを残りの位置でnextの順に並べる
+ * 記録したアイテムがなくなったか、その並び順がexpectedと違う場合（dataが外部で変わった）はnullを返す
+ * 結果には現在のアイテムを使う（記録後に編集された内容を保つ）
+ */
+export function replayOrder<T>(
+    data: T[],
+    expected: string[],
+    next: string[],
+    keyExtractor: (item: T) => string
+): T[] | null {
+    if (next.length !== expected.length) return null;
+    const expectedIndex = new Map(expected.map((key, index) => [key, index]));
+    const byKey = new Map<string, T>();
+    let matched = 0;
+    for (const item of data) {
+        const key = keyExtractor(item);
+        const index = expectedIndex.get(key);
+        if (index === undefined) continue;
+        if (index !== matched) return null;
+        byKey.set(key, item);
+        matched++;
+    }
+    if (matched !== expected.length) return null;
+
+    const result = data.slice();
+    let slot = 0;
+    for (const key of next) {
+        const item = byKey.get(key);
+        if (item === undefined) return null;
+        while (!expectedIndex.has(keyExtractor(result[slot]))) slot++;
+        result[slot++] = item;
+    }
+    return result;
+}
@@ -0,0 +1,111 @@
+/**
+ * Simple Draggable Masonry - Sections
+ * セクションをヘッダー付きの1次元配列に変換するユーティリティ
+ *
+ * セクションヘッダーは全カラムにまたがるアイテムとして扱うため、
+ * レイアウト・ドラッグ判定・仮想化は通常のアイテムと同じ処理で動作する
+ */
+
+import type { MasonryItem, MasonrySection } from './types';
+
+const SECTION_HEADER_PREFIX = '__section__:';
+
+export interface SectionHeaderItem<T extends MasonryItem> extends MasonryItem {
+    __sectionHeader: true;
+    section: MasonrySection<T>;
+}
+
+export type SectionEntry<T extends MasonryItem> = T | SectionHeaderItem<T>;
+
+export function isSectionHeader<T extends MasonryItem>(
+    item: SectionEntry<T>
+): item is SectionHeaderItem<T> {
+    return (item as SectionHeaderItem<T>).__sectionHeader === true;
+}
+
+/**
+ * セクションヘッダー用のアイテムを作成（全カラムにまたがる）
+ */
+export function createSectionHeaderItem<T extends MasonryItem>(
+    section: MasonrySection<T>
+): SectionHeaderItem<T> {
+    return {
+        __sectionHeader: true,
+        id: `${SECTION_HEADER_PREFIX}${section.key}`,
+        height: section.headerHeight,
+        span: Number.MAX_SAFE_INTEGER,
+        section,
+    };
+}
+
+/**
+ * セクション配列を [ヘッダー, ...アイテム, ヘッダー, ...アイテム] の1次元配列に変換
+ */
+export function flattenSections<T extends MasonryItem>(
+    sections: MasonrySection<T>[]
+): SectionEntry<T>[] {
+    const result: SectionEntry<T>[] = [];
+    for (const section of sections) {
+        result.push(createSectionHeaderItem(section));
+        result.push(...section.data);
+    }
+    return result;
+}
+
+/**
+ * 1次元配列からセクション配列を復元（ヘッダーの位置でアイテムを振り分け）
+ */
+export function unflattenSections<T extends MasonryItem>(
+    entries: SectionEntry<T>[]
+): MasonrySection<T>[] {
+    const result: MasonrySection<T>[] = [];
+    let current: MasonrySection<T> | null = null;
+
+    for (const entry of entries) {
+        if (isSectionHeader(entry)) {
+            current = { ...entry.section, data: [] };
+            result.push(current);
+        } else if (current) {
+            current.data.push(entry);
+        }
+    }
+    return result;
+}
+
+/**
+ * ヘッダーを除いたアイテムのみを取得
+ */
+export function stripSectionHeaders<T extends MasonryItem>(entries: SectionEntry<T>[]): T[] {
+    return entries.filter((entry): entry is T => !isSectionHeader(entry));
+}
+
+export interface SectionLocation {
+    /** Key of the section the item belongs to */
+    section: string;
+    /** Index of the item within its section */
+    index: number;
+}
+
+/**
+ * 1次元配列のインデックスがどのセクションの何番目かを取得
+ */
+export function locateInSections<T extends MasonryItem>(
+    entries: SectionEntry<T>[],
+    flatIndex: number
+): SectionLocation | null {
+    let section: string | null = null;
+    let index = 0;
+
+    for (let i = 0; i <= flatIndex && i < entries.length; i++) {
+        const entry = entries[i];
+        if (isSectionHeader(entry)) {
+            section = entry.section.key;
+            index = 0;
+        } else if (i < flatIndex) {
+            index++;
+        }
+    }
+
+    if (section === null || flatIndex < 0 || flatIndex >= entries.length) return null;
+    return { section, index };
+}
@@ -0,0 +1,98 @@
+/**
+ * Simple Draggable Masonry - Spatial Index
+ * カラムごとにアイテムの区間（上端〜下端）を上端順に並べた索引
+ *
+ * 可視判定とドロップ先の判定を全件走査ではなく二分探索で行うために使う
+ * 座標はレイアウトと同じ論理座標（y = スクロール方向）
+ */
+
+import type { ItemPosition, MasonryItem } from './types';
+
+export interface SpatialIndexEntry {
+    /** Index of the item in the indexed data */
+    index: number;
+    top: number;
+    bottom: number;
+}
+
+export interface SpatialIndex {
+    /** Entries of each column sorted by top. Items spanning several columns appear in each of them */
+    columns: SpatialIndexEntry[][];
+    /** `maxBottoms[c][i]` is the largest bottom among `columns[c][0..i]` */
+    maxBottoms: number[][];
+    /** Key → index in the indexed data */
+    indexByKey: Map<string, number>;
+}
+
+/**
+ * レイアウト結果から索引を作成（O(n)、カラム内が上端順でなければソート）
+ */
+export function buildSpatialIndex<T extends MasonryItem>(
+    data: T[],
+    positions: Record<string, ItemPosition>,
+    keyExtractor: (item: T) => string,
+    numColumns: number
+): SpatialIndex {
+    const columnCount = Math.max(1, numColumns);
+    const columns: SpatialIndexEntry[][] = Array.from({ length: columnCount }, () => []);
+    const indexByKey = new Map<string, number>();
+
+    data.forEach((item, index) => {
+        const key = keyExtractor(item);
+        indexByKey.set(key, index);
+        const pos = positions[key];
+        if (!pos) return;
+
+        const entry = { index, top: pos.y, bottom: pos.y + pos.height };
+        const first = Math.max(0, Math.min(pos.column, columnCount - 1));
+        const last = Math.max(first, Math.min(pos.column + pos.span - 1, columnCount - 1));
+        for (let c = first; c <= last; c++) {
+            columns[c].push(entry);
+        }
+    });
+
+    const maxBottoms = columns.map(entries => {
+        // 組み込み戦略ではカラム内は既に上端順（安定ソートなので同じ上端はデータ順）
+        if (entries.some((entry, i) => i > 0 && entry.top < entries[i - 1].top)) {
+            entries.sort((a, b) => a.top - b.top);
+        }
+        let max = -Infinity;
+        return entries.map(entry => (max = Math.max(max, entry.bottom)));
+    });
+
+    return { columns, maxBottoms, indexByKey };
+}
+
+/**
+ * 下端がyを超える（inclusiveならy以上の）最初のエントリ位置を二分探索
+ * maxBottomsは単調増加なので、それより前のエントリは全て条件を満たさない
+ */
+export function findFirstEntryBelow(maxBottoms: number[], y: number, inclusive = false): number {
+    let low = 0;
+    let high = maxBottoms.length;
+    while (low < high) {
+        const mid = (low + high) >> 1;
+        const reaches = inclusive ? maxBottoms[mid] >= y : maxBottoms[mid] > y;
+        if (reaches) {
+            high = mid;
+        } else {
+            low = mid + 1;
+        }
+    }
+    return low;
+}
+
+/**
+ * [top, bottom] と重なるアイテムのインデックス（データ順、重複なし）
+ */
+export function queryRange(index: SpatialIndex, top: number, bottom: number): number[] {
+    const found = new Set<number>();
+    index.columns.forEach((entries, c) => {
+        for (let i = findFirstEntryBelow(index.maxBottoms[c], top, true); i < entries.length; i++) {
+            const entry = entries[i];
+            if (entry.top > bottom) break;
+            if (entry.bottom >= top) found.add(entry.index);
+        }
+    });
+    return [...found].sort((a, b) => a - b);
+}
@@ -0,0 +1,128 @@
+/**
+ * Simple Draggable Masonry - Core Type Definitions
+ * React Native に依存しないレイアウト・並び替えの型
+ */
+
+// ============================================================================
+// Base Types
+// ============================================================================
+
+export interface MasonryItem {
+    id: string;
+    /** Height in pixels. When omitted, the rendered cell is measured */
+    height?: number;
+    /** Width in pixels, used in `horizontal` mode. When omitted, the rendered cell is measured */
+    width?: number;
+    /** Number of columns the item covers. Defaults to 1 */
+    span?: number;
+    /** Column the item is placed in with the 'anchored' layout strategy */
+    column?: number;
+    /**
+     * Width / height ratio. Used to derive the height from the cell width when `height` is omitted
+     * (or the width from the row height in `horizontal` mode)
+     */
+    aspectRatio?: number;
+    [key: string]: any;
+}
+
+export interface MasonrySection<T extends MasonryItem> {
+    /** Unique key of the section */
+    key: string;
+    /** Items of the section */
+    data: T[];
+    /** Height of the section header. Measured when omitted */
+    headerHeight?: number;
+    [key: string]: any;
+}
+
+/** Breakpoint map: minimum container width (px) → number of columns */
+export type ColumnBreakpoints = Record<number, number>;
+
+/** Fit as many columns as possible while keeping each at least `minColumnWidth` wide */
+export interface MinColumnWidthRule {
+    minColumnWidth: number;
+    /** Upper bound for the resolved column count */
+    maxColumns?: number;
+}
+
+export type ColumnsConfig = number | ColumnBreakpoints | MinColumnWidthRule;
+
+// ============================================================================
+// Layout Types
+// ============================================================================
+
+export interface ItemPosition {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    /** First (leftmost) column the item covers */
+    column: number;
+    /** Number of columns the item covers */
+    span: number;
+}
+
+// Alias for backward compatibility
+export type PositionedItem = ItemPosition;
+
+export interface ColumnLayout {
+    positions: Record<string, ItemPosition>;
+    totalHeight: number;
+}
+
+// ============================================================================
+// Layout Strategy Types
+// ============================================================================
+
+/**
+ * Values passed to a layout strategy alongside the data.
+ */
+export interface LayoutContext<T extends MasonryItem> {
+    /** Number of columns */
+    columns: number;
+    /** Measured width of the list container */
+    containerWidth: number;
+    /** Width of a single column */
+    columnWidth: number;
+    /** Gap between rows in pixels */
+    rowGap: number;
+    /** Gap between columns in pixels */
+    columnGap: number;
+    /** Key extractor used by the list */
+    keyExtractor: (item: T) => string;
+    /** Resolved column span of an item, already clamped to 1..columns */
+    getItemSpan: (item: T) => number;
+    /** Resolved height of an item placed in a cell of the given width (declared, derived, measured or estimated) */
+    getItemHeight: (item: T, width: number) => number;
+    /** Column an item is anchored to: `item.column`, or the column under the finger while it is dragged */
+    getItemColumn: (item: T) => number | undefined;
+}
+
+/**
+ * Custom layout strategy contract.
+ *
+ * Must return a position for every item keyed by `ctx.keyExtractor(item)`.
+ * `column` must be the index of the first column the item is placed in and
+ * `span` the number of columns it covers, since drag hit-testing groups items
+ * by them. Should be pure: it is called on every
+ * render that changes the data order, including during drags.
+ *
+ * In `horizontal` mode the strategy runs on transposed axes: columns are rows,
+ * `containerWidth` is the container height, `getItemHeight` returns item widths
+ * and the returned `y`/`totalHeight` are measured along the horizontal scroll.
+ */
+export type LayoutStrategyFunction<T extends MasonryItem> = (
+    data: T[],
+    ctx: LayoutContext<T>
+) => ColumnLayout;
+
+/**
+ * Built-in layout strategies
+ * - 'shortestColumn': each item goes into the currently shortest column
+ * - 'roundRobin': item `i` goes into column `i % columns`
+ * - 'grid': items fill rows left to right, each row starts below the tallest item of the previous row
+ * - 'anchored': each item stays in `item.column` (stacked in data order); dropping moves it to the column under the finger
+ */
+export type BuiltInLayoutStrategy = 'shortestColumn' | 'roundRobin' | 'grid' | 'anchored';
+
+export type LayoutStrategy<T extends MasonryItem> = BuiltInLayoutStrategy | LayoutStrategyFunction<T>;
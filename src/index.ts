@@ -5,14 +5,18 @@
 
 // Main component
 export { default as DraggableMasonryList } from './DraggableMasonryList';
+export { MasonryDragHandle } from './MasonryDragHandle';
+export { MasonryDragProvider, useMasonryDropZone } from './MasonryDragProvider';
+export { useMasonryHistory } from './useMasonryHistory';
 
 // Types
 export type {
-    DragEndParams, DraggableMasonryListProps, DragStartParams, EntryAnimationType,
-    ExitAnimationType, MasonryItem, OrderChangeParams, OverDragType, PositionedItem,
-    RenderItemInfo
+    BuiltInLayoutStrategy, CanMoveToParams, ColumnBreakpoints, ColumnLayout, ColumnsConfig, DragEndParams, DragEndResult, DragHandleMode, DraggableMasonryListProps, DraggableMasonryListRef, DragStartParams, DropOutsideParams, EndReachedParams,
+    EntryAnimationType, ExitAnimationType, HistoryChangeParams, ItemPosition, ItemRemoveParams, ItemTransferParams, LayoutContext, LayoutStrategy,
+    LayoutStrategyFunction, ListComponent, MasonryDragHandleProps, MasonryDragProviderProps, MasonryDropZone, MasonryHistory, MasonryItem, MasonrySection, MergeItemsParams, MinColumnWidthRule, MoveItemOptions, OrderChangeParams, OverDragType, PositionedItem,
+    ReorderAccessibilityStrings, ReorderSource, RenderItemInfo, ScrollToIndexOptions, ScrollToItemOptions, ScrollToOffsetOptions, SectionHeaderInfo
 } from './types';
 
 // Default props
-export { DEFAULT_PROPS } from './types';
+export { DEFAULT_ACCESSIBILITY_STRINGS, DEFAULT_PROPS } from './types';
 
@@ -3,25 +3,53 @@
  * Compatible with the main library's props
  */
 
-import type { StyleProp, ViewStyle } from 'react-native';
+import type { RefreshControlProps, StyleProp, View, ViewStyle } from 'react-native';
+import type {
+    BuiltInLayoutStrategy,
+    ColumnsConfig,
+    ItemPosition,
+    LayoutStrategy,
+    MasonryItem,
+    MasonrySection,
+} from './core/types';
+
+// レイアウト関連の型はcoreで定義（React Nativeに依存しない）
+export type {
+    BuiltInLayoutStrategy,
+    ColumnBreakpoints,
+    ColumnLayout,
+    ColumnsConfig,
+    ItemPosition,
+    LayoutContext,
+    LayoutStrategy,
+    LayoutStrategyFunction,
+    MasonryItem,
+    MasonrySection,
+    MinColumnWidthRule,
+    PositionedItem,
+} from './core/types';
 
 // ============================================================================
 // Base Types
 // ============================================================================
 
-export interface MasonryItem {
-    id: string;
-    height: number;
-    [key: string]: any;
-}
-
 export interface RenderItemInfo<T extends MasonryItem> {
     item: T;
+    /** Index in `data`, or within the item's section when `sections` is used */
     index: number;
+    /** Key of the section the item belongs to (only with `sections`) */
+    section?: string;
+}
+
+export interface SectionHeaderInfo<T extends MasonryItem> {
+    section: MasonrySection<T>;
 }
 
 export type OverDragType = 'both' | 'horizontal' | 'vertical' | 'none';
 
+/** Where a drag can start: anywhere on the item, or only from a `MasonryDragHandle` inside it */
+export type DragHandleMode = 'item' | 'handle';
+
 // Accept both custom animation functions and Reanimated built-in animations
 export type EntryAnimationType = any;
 export type ExitAnimationType = any;
@@ -30,22 +58,140 @@ export type ExitAnimationType = any;
 // Callback Types
 // ============================================================================
 
+/** What caused a change of order: a user drag, a ref method, a screen reader action or an undo/redo */
+export type ReorderSource = 'drag' | 'api' | 'accessibility' | 'history';
+
+/**
+ * How a drag ended: reordered within the list, dropped onto another list,
+ * dropped onto a `useMasonryDropZone` zone or merged into another item
+ */
+export type DragEndResult = 'reorder' | 'transfer' | 'dropZone' | 'merge';
+
 export interface DragStartParams {
+    /** Key of the item under the finger */
     key: string;
+    /** Keys of all dragged items in data order: the selected items for a group drag, otherwise `[key]` */
+    keys: string[];
     fromIndex: number;
+    /** Section the item is dragged from (only with `sections`) */
+    fromSection?: string;
 }
 
 export interface DragEndParams<T extends MasonryItem> {
+    /** Key of the item under the finger */
     key: string;
+    /** Keys of all moved items in data order; a group is inserted contiguously starting at `toIndex` */
+    keys: string[];
     fromIndex: number;
     toIndex: number;
+    /**
+     * All items in their new order (without section headers). After a 'transfer'
+     * or 'dropZone' drop the dropped items are left out; after a 'merge' the
+     * order is unchanged
+     */
     data: T[];
+    /** Section the item was dragged from (only with `sections`) */
+    fromSection?: string;
+    /** Section the item was dropped into (only with `sections`) */
+    toSection?: string;
+    /** Sections with their new contents (only with `sections`) */
+    sections?: MasonrySection<T>[];
+    /** Column the item was dropped in (its first column if it spans several) */
+    column: number;
+    /** Index of the item among the items starting in the same column (within its section) */
+    indexInColumn: number;
+    /** 'api' when the change was made through a ref method, 'accessibility' for a screen reader action, 'history' for undo/redo */
+    source: ReorderSource;
+    /**
+     * 'reorder' unless the drag ended outside the list's order. For the other
+     * results `toIndex`/`toSection`, `column` and `indexInColumn` are where the
+     * item was before the drag
+     */
+    result: DragEndResult;
 }
 
 export interface OrderChangeParams {
     key: string;
     fromIndex: number;
     toIndex: number;
+    /** Section the item was dragged from (only with `sections`) */
+    fromSection?: string;
+    /** Section the item was dropped into (only with `sections`) */
+    toSection?: string;
+    /** 'api' when the change was made through a ref method, 'accessibility' for a screen reader action, 'history' for undo/redo */
+    source: ReorderSource;
+}
+
+export interface ItemRemoveParams<T extends MasonryItem> {
+    key: string;
+    /** Index the item had in `data` (within its section when `sections` is used) */
+    index: number;
+    /** Section the item was removed from (only with `sections`) */
+    section?: string;
+    /** Remaining items (without section headers) */
+    data: T[];
+    /** Sections with their new contents (only with `sections`) */
+    sections?: MasonrySection<T>[];
+    source: ReorderSource;
+}
+
+export interface ItemTransferParams<T extends MasonryItem = MasonryItem> {
+    key: string;
+    /** The moved item, to be removed from the source list's data and inserted into the target's */
+    item: T;
+    /** `listId` of the list the item was dragged from */
+    fromListId: string;
+    /** `listId` of the list the item was dropped into */
+    toListId: string;
+    /** Index the item had in the source list (within its section when `sections` is used) */
+    fromIndex: number;
+    /** Section the item was dragged from (only when the source list uses `sections`) */
+    fromSection?: string;
+    /** Index of the item in the target list after the drop (within its section when `sections` is used) */
+    toIndex: number;
+    /** Section the item was dropped into (only when the target list uses `sections`) */
+    toSection?: string;
+}
+
+export interface DropOutsideParams<T extends MasonryItem = MasonryItem> {
+    /** Key of the item under the finger */
+    key: string;
+    /** Keys of all dropped items: the selected items for a group drag, otherwise `[key]` */
+    keys: string[];
+    /** The item under the finger */
+    item: T;
+    /** Id passed to `useMasonryDropZone` */
+    zoneId: string;
+    /** `listId` of the list the item was dragged from */
+    listId?: string;
+}
+
+export interface MergeItemsParams {
+    /** Key of the dragged item */
+    sourceKey: string;
+    /** Key of the item it was dropped onto */
+    targetKey: string;
+}
+
+export interface CanMoveToParams<T extends MasonryItem> {
+    /** The dragged item */
+    item: T;
+    fromIndex: number;
+    /** Index the item would get (within `toSection` when `sections` is used) */
+    toIndex: number;
+    /** Section the item is dragged from (only with `sections`) */
+    fromSection?: string;
+    /** Section the item would be moved into (only with `sections`) */
+    toSection?: string;
+    /** Items that would be right before and after it (within the same section) */
+    targetNeighbors: { before?: T; after?: T };
+}
+
+export interface HistoryChangeParams {
+    /** Whether `undo` would revert a reorder */
+    canUndo: boolean;
+    /** Whether `redo` would repeat an undone reorder */
+    canRedo: boolean;
 }
 
 export interface DragChangeParams {
@@ -55,39 +201,252 @@ export interface DragChangeParams {
     index: number;
 }
 
+export interface EndReachedParams {
+    /** Distance in px from the end of the viewport to the end of the items (negative when the items don't fill it) */
+    distanceFromEnd: number;
+}
+
 export type DragStartCallback = (params: DragStartParams) => void;
 export type DragEndCallback<T extends MasonryItem> = (params: DragEndParams<T>) => void;
 export type OrderChangeCallback = (params: OrderChangeParams) => void;
 export type DragChangeCallback = (params: DragChangeParams) => void;
+export type EndReachedCallback = (params: EndReachedParams) => void;
+export type ItemRemoveCallback<T extends MasonryItem> = (params: ItemRemoveParams<T>) => void;
+export type ItemTransferCallback<T extends MasonryItem = MasonryItem> = (params: ItemTransferParams<T>) => void;
+export type DropOutsideCallback<T extends MasonryItem = MasonryItem> = (params: DropOutsideParams<T>) => void;
+export type MergeItemsCallback = (params: MergeItemsParams) => void;
+export type HistoryChangeCallback = (params: HistoryChangeParams) => void;
+
+// ============================================================================
+// Accessibility
+// ============================================================================
+
+/** Labels of the reorder actions offered to screen readers, and the announcement after a move */
+export interface ReorderAccessibilityStrings {
+    moveUp: string;
+    moveDown: string;
+    movePreviousColumn: string;
+    moveNextColumn: string;
+    moveToStart: string;
+    moveToEnd: string;
+    /** Announced after a move. `position` is 1-based and, like `count`, within the section when `sections` is used */
+    movedTo: (position: number, count: number) => string;
+}
+
+// ============================================================================
+// Ref
+// ============================================================================
+
+export interface ScrollToItemOptions {
+    /** Defaults to true */
+    animated?: boolean;
+    /** Where the item ends up in the viewport: 0 = start, 0.5 = center, 1 = end. Defaults to 0 */
+    viewPosition?: number;
+}
+
+export interface ScrollToIndexOptions extends ScrollToItemOptions {
+    /** Section the index refers to (only with `sections`) */
+    section?: string;
+}
+
+export interface MoveItemOptions {
+    /** Section `toIndex` refers to (only with `sections`). Defaults to the item's section */
+    section?: string;
+}
+
+export interface ScrollToOffsetOptions {
+    /** Defaults to true */
+    animated?: boolean;
+}
+
+/** Methods exposed through the `ref` of `DraggableMasonryList` */
+export interface DraggableMasonryListRef {
+    /** Scrolls to the item with the given key. Does nothing if it isn't laid out yet */
+    scrollToItem: (key: string, options?: ScrollToItemOptions) => void;
+    /** Scrolls to the item at `index` in `data` (or within `options.section`) */
+    scrollToIndex: (index: number, options?: ScrollToIndexOptions) => void;
+    /** Scrolls to an offset along the scroll direction, clamped to the content */
+    scrollToOffset: (offset: number, options?: ScrollToOffsetOptions) => void;
+    /**
+     * Position of the item in the scroll content (header offset included),
+     * or undefined if it isn't laid out yet
+     */
+    getItemLayout: (key: string) => ItemPosition | undefined;
+    /** Length of the scroll content along the scroll direction (header and footer included) */
+    getContentHeight: () => number;
+    /**
+     * Moves an item to `toIndex` in `data` (or within `options.section`, which
+     * defaults to the item's section) and animates like a drop.
+     * Calls `onDragEnd`/`onOrderChange` with `source: 'api'`
+     */
+    moveItem: (key: string, toIndex: number, options?: MoveItemOptions) => void;
+    /** Swaps two items. Calls `onDragEnd`/`onOrderChange` for `keyA` with `source: 'api'` */
+    swapItems: (keyA: string, keyB: string) => void;
+    /**
+     * Removes an item with `itemExiting` and calls `onItemRemove`.
+     * Locked items are not removed. Clears the undo history
+     */
+    removeItem: (key: string) => void;
+    /**
+     * Reverts the last recorded reorder and animates like a drop.
+     * Calls `onDragEnd`/`onOrderChange` with `source: 'history'`
+     */
+    undo: () => void;
+    /** Repeats the last undone reorder. Calls `onDragEnd`/`onOrderChange` with `source: 'history'` */
+    redo: () => void;
+    canUndo: () => boolean;
+    canRedo: () => boolean;
+    /** Forgets all recorded reorders */
+    clearHistory: () => void;
+}
+
+/** Returned by `useMasonryHistory` */
+export interface MasonryHistory extends HistoryChangeParams {
+    undo: () => void;
+    redo: () => void;
+    clearHistory: () => void;
+    /** Pass to the list's `onHistoryChange` */
+    onHistoryChange: HistoryChangeCallback;
+}
+
+// ============================================================================
+// Multiple Lists
+// ============================================================================
+
+export interface MasonryDragProviderProps {
+    children: React.ReactNode;
+    /**
+     * Called when an item is dropped onto another list. Both lists show the move
+     * right away; update both data arrays here to keep it
+     */
+    onItemTransfer?: ItemTransferCallback;
+    /** Style of the view wrapping the lists; the dragged item is drawn above it. Defaults to `{ flex: 1 }` */
+    style?: StyleProp<ViewStyle>;
+}
+
+/** Returned by `useMasonryDropZone` */
+export interface MasonryDropZone {
+    /** Pass to the `ref` of the view that accepts drops */
+    ref: React.RefObject<View | null>;
+    /** Whether a dragged item is over the zone */
+    isOver: boolean;
+}
 
 // ============================================================================
 // Component Props
 // ============================================================================
 
+export interface MasonryDragHandleProps {
+    children?: React.ReactNode;
+    /**
+     * Long press duration (ms) before the drag starts from this handle. Defaults
+     * to the list's `dragActivationDelay`; `0` starts dragging on the first move
+     */
+    activationDelay?: number;
+    style?: StyleProp<ViewStyle>;
+}
+
+/** A component or an element, as accepted by FlatList's `ListHeaderComponent` */
+export type ListComponent = React.ComponentType | React.ReactElement | null;
+
 export interface DraggableMasonryListProps<T extends MasonryItem> {
     // ========== Base ==========
-    /** Array of items to render */
-    data: T[];
+    /** Array of items to render. Required unless `sections` is provided */
+    data?: T[];
     /** Function to render each item */
     renderItem: (info: RenderItemInfo<T>) => React.ReactNode;
+
+    // ========== Sections ==========
+    /**
+     * Groups of items, each with a full-width header and its own masonry block.
+     * Takes precedence over `data`. Items can be dragged between sections;
+     * `fromIndex`/`toIndex` in callbacks are then indices within the sections
+     */
+    sections?: MasonrySection<T>[];
+    /** Function to render each section header */
+    renderSectionHeader?: (info: SectionHeaderInfo<T>) => React.ReactNode;
     /** Function to extract unique key from item. Defaults to item.id */
     keyExtractor?: (item: T) => string;
     /** Whether sorting/dragging is enabled. Defaults to true */
     sortEnabled?: boolean;
+    /**
+     * Locked items can't be picked up, are never used as drop or swap targets
+     * and keep their index (within their section) while other items move around them
+     */
+    isItemLocked?: (item: T) => boolean;
+    /** Whether an item can be picked up. Items it rejects still move around and can be dropped next to */
+    canDragItem?: (item: T) => boolean;
+    /**
+     * Whether the dragged item may be moved to a position. Rejected positions are
+     * skipped when looking for the drop position (or swap target); if none is
+     * left under the finger, the drop indicator shows its invalid style and
+     * dropping puts the item back
+     */
+    canMoveTo?: (params: CanMoveToParams<T>) => boolean;
     /** Whether swap mode is enabled. Defaults to false */
     swapMode?: boolean;
+    /**
+     * Keys of selected items. Dragging a selected item moves all selected items
+     * (except locked ones) as a stacked group that is inserted contiguously at
+     * the drop position. Ignored in `swapMode`
+     */
+    selectedKeys?: string[];
+    /**
+     * Identifies the list inside a `MasonryDragProvider`. Items can be dragged
+     * between lists with an id; group drags stay within their list but can be
+     * dropped onto drop zones
+     */
+    listId?: string;
 
     // ========== Layout ==========
-    /** Number of columns. Defaults to 2 */
-    columns?: number;
+    /**
+     * Scroll horizontally and pack items into rows instead of columns. `columns`
+     * then sets the number of rows, which share the container height; each item
+     * goes into the row with the smallest total width. Defaults to false
+     */
+    horizontal?: boolean;
+    /**
+     * Column order. 'rtl' places the first column on the right and mirrors drag
+     * hit-testing and the drop indicator. Ignored in `horizontal` mode.
+     * Defaults to `I18nManager.isRTL`
+     */
+    direction?: 'ltr' | 'rtl';
+    /**
+     * Number of columns, or a breakpoint map / `minColumnWidth` rule resolved
+     * from the measured container width. Defaults to 2
+     */
+    columns?: ColumnsConfig;
+    /**
+     * How items are placed into columns. Either a built-in strategy name or a
+     * custom `(data, ctx) => ColumnLayout` function. Defaults to 'shortestColumn'
+     */
+    layoutStrategy?: LayoutStrategy<T>;
+    /** Number of columns an item covers. Takes precedence over `item.span`. Clamped to 1..columns */
+    getItemSpan?: (item: T) => number;
     /** Gap between rows in pixels. Defaults to 10 */
     rowGap?: number;
     /** Gap between columns in pixels. Defaults to 10 */
     columnGap?: number;
+    /**
+     * Height of an item derived from its cell width (the column width, or the
+     * spanned width for multi-column items). Takes precedence over `item.height`
+     * and `item.aspectRatio`. Return undefined to fall back to them
+     */
+    getItemHeight?: (item: T, columnWidth: number) => number | undefined;
+    /**
+     * Height used for items without `height` until their cell has been measured
+     * (width for items without `width` in `horizontal` mode). Defaults to 100
+     */
+    estimatedItemHeight?: number;
 
     // ========== Item Drag ==========
     /** Delay in ms before drag activates. Defaults to 300 */
     dragActivationDelay?: number;
+    /**
+     * `'handle'` starts drags only from `MasonryDragHandle` components inside
+     * `renderItem`, leaving the rest of the item fully interactive. Defaults to 'item'
+     */
+    dragHandleMode?: DragHandleMode;
     /** Duration of activation animation in ms. Defaults to 150 */
     activationAnimationDuration?: number;
     /** Duration of drop animation in ms. Defaults to 200 */
@@ -138,6 +497,20 @@ export interface DraggableMasonryListProps<T extends MasonryItem> {
     showDropIndicator?: boolean;
     /** Custom style for the drop indicator */
     dropIndicatorStyle?: StyleProp<ViewStyle>;
+    /** Style added to the drop indicator while the position under the finger is rejected by `canMoveTo` */
+    invalidDropIndicatorStyle?: StyleProp<ViewStyle>;
+
+    // ========== Merge ==========
+    /**
+     * Enables dropping an item onto another one. Holding the dragged item over
+     * the center of an item for `mergeDwellTime` highlights it instead of
+     * reordering, and releasing calls this. The order is left unchanged
+     */
+    onMergeItems?: MergeItemsCallback;
+    /** How long (ms) the dragged item has to stay over an item's center to merge. Defaults to 500 */
+    mergeDwellTime?: number;
+    /** Custom style for the highlight of the merge target */
+    mergeHighlightStyle?: StyleProp<ViewStyle>;
 
     // ========== Layout Animations ==========
     /** Animation when item enters */
@@ -154,30 +527,70 @@ export interface DraggableMasonryListProps<T extends MasonryItem> {
     onOrderChange?: OrderChangeCallback;
     /** Called when drag changes */
     onDragChange?: DragChangeCallback;
+    /** Called when an item is removed with the `removeItem` ref method */
+    onItemRemove?: ItemRemoveCallback<T>;
+    /**
+     * Called when items are dropped onto a `useMasonryDropZone` zone. They are
+     * removed with `itemExiting` instead of being reordered; update `data` here
+     */
+    onDropOutside?: DropOutsideCallback<T>;
 
-    // ========== Style ==========
-    /** Style for the scroll view content container */
-    contentContainerStyle?: StyleProp<ViewStyle>;
-}
+    // ========== History ==========
+    /**
+     * Number of reorders (drags, ref method moves and swaps, screen reader
+     * actions) kept for `undo`. 0 disables the history. Defaults to 50
+     */
+    historyLimit?: number;
+    /** Called when `canUndo` or `canRedo` changes */
+    onHistoryChange?: HistoryChangeCallback;
 
-// ============================================================================
-// Internal Types
-// ============================================================================
+    // ========== Accessibility ==========
+    /**
+     * Offers reorder actions ("Move up", "Move to next column", ...) to
+     * VoiceOver/TalkBack on sortable cells. This makes each cell one accessible
+     * element, so buttons, inputs and links inside it can no longer be focused
+     * separately. Defaults to false
+     */
+    accessibilityReorder?: boolean;
+    /**
+     * Labels of the reorder actions ("Move up", "Move to next column", ...) that
+     * sortable cells offer to VoiceOver/TalkBack with `accessibilityReorder`,
+     * and the announcement after a move. Missing entries fall back to English
+     */
+    accessibilityStrings?: Partial<ReorderAccessibilityStrings>;
 
-export interface ItemPosition {
-    x: number;
-    y: number;
-    width: number;
-    height: number;
-    column: number;
-}
+    // ========== Loading ==========
+    /**
+     * Called once the end of the items (the footer excluded) comes within
+     * `onEndReachedThreshold` of the viewport. Called again only after the number
+     * of items changes or the list is scrolled away from the end. Deferred until
+     * a drag and its drop animation have finished
+     */
+    onEndReached?: EndReachedCallback;
+    /** Distance from the end, in viewport lengths, at which `onEndReached` is called. Defaults to 0.5 */
+    onEndReachedThreshold?: number;
+    /** Custom RefreshControl for the scroll view. Takes precedence over `onRefresh`/`refreshing` */
+    refreshControl?: React.ReactElement<RefreshControlProps>;
+    /** Adds a standard RefreshControl for pull-to-refresh (vertical lists only) */
+    onRefresh?: () => void;
+    /** Whether the RefreshControl added by `onRefresh` shows the refresh indicator. Defaults to false */
+    refreshing?: boolean;
 
-// Alias for backward compatibility
-export type PositionedItem = ItemPosition;
+    // ========== List Components ==========
+    /**
+     * Rendered above the items (left of them in `horizontal` mode). Its size is
+     * measured and the items, auto-scroll and the drop indicator are offset by it.
+     * Items can't be dropped into it
+     */
+    ListHeaderComponent?: ListComponent;
+    /** Rendered below the items (right of them in `horizontal` mode) */
+    ListFooterComponent?: ListComponent;
+    /** Rendered between the header and the footer when there are no items */
+    ListEmptyComponent?: ListComponent;
 
-export interface ColumnLayout {
-    positions: Record<string, ItemPosition>;
-    totalHeight: number;
+    // ========== Style ==========
+    /** Style for the scroll view content container */
+    contentContainerStyle?: StyleProp<ViewStyle>;
 }
 
 // ============================================================================
@@ -185,11 +598,15 @@ export interface ColumnLayout {
 // ============================================================================
 
 export const DEFAULT_PROPS = {
+    horizontal: false,
     columns: 2,
+    layoutStrategy: 'shortestColumn' as BuiltInLayoutStrategy,
     rowGap: 10,
     columnGap: 10,
+    estimatedItemHeight: 100,
     sortEnabled: true,
     dragActivationDelay: 300,
+    dragHandleMode: 'item' as DragHandleMode,
     activationAnimationDuration: 150,
     dropAnimationDuration: 200,
     overDrag: 'both' as OverDragType,
@@ -210,5 +627,20 @@ export const DEFAULT_PROPS = {
     overscanCount: 1,
     dragOverscanCount: 3,
     showDropIndicator: true,
+    mergeDwellTime: 500,
+    historyLimit: 50,
     swapMode: false,
+    onEndReachedThreshold: 0.5,
+    refreshing: false,
+    accessibilityReorder: false,
 } as const;
+
+export const DEFAULT_ACCESSIBILITY_STRINGS: ReorderAccessibilityStrings = {
+    moveUp: 'Move up',
+    moveDown: 'Move down',
+    movePreviousColumn: 'Move to previous column',
+    moveNextColumn: 'Move to next column',
+    moveToStart: 'Move to start',
+    moveToEnd: 'Move to end',
+    movedTo: (position, count) => `Moved to position ${position} of ${count}`,
+};
@@ -0,0 +1,17 @@
+import { useCallback, useState, type RefObject } from 'react';
+
+import type { DraggableMasonryListRef, HistoryChangeParams, MasonryHistory } from './types';
+
+/**
+ * リストの並び替えの履歴を操作する（「元に戻す」スナックバーなど）
+ * 返したonHistoryChangeをリストに渡すと、canUndo/canRedoが更新される
+ */
+export function useMasonryHistory(listRef: RefObject<DraggableMasonryListRef | null>): MasonryHistory {
+    const [state, setState] = useState<HistoryChangeParams>({ canUndo: false, canRedo: false });
+
+    const undo = useCallback(() => listRef.current?.undo(), [listRef]);
+    const redo = useCallback(() => listRef.current?.redo(), [listRef]);
+    const clearHistory = useCallback(() => listRef.current?.clearHistory(), [listRef]);
+
+    return { ...state, undo, redo, clearHistory, onHistoryChange: setState };
+}